@@ -0,0 +1,98 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+// Anything which can signal that the caller no longer wants an operation: an AbortSignal,
+// or a token with isCancellationRequested and onCancellationRequested such as vscode's CancellationToken
+export interface CancellationToken {
+    aborted?: boolean;
+    addEventListener?: (type: string, listener: () => void) => void;
+    removeEventListener?: (type: string, listener: () => void) => void;
+    isCancellationRequested?: boolean;
+    onCancellationRequested?: (listener: () => void) => { dispose(): any };
+}
+
+export interface CancellationOptions {
+    // Abort the operation when this is cancelled, rejecting with a "Cancelled" error
+    cancellationToken?: CancellationToken;
+    // Abort the operation if it has not finished within this many milliseconds overall, rejecting with a "DeviceLaunchTimeout" error
+    timeout?: number;
+}
+
+// Watches the token and overall timeout of one operation, and tells everything the operation has in progress
+// (sockets, child processes, timers) to tear itself down when either fires.
+// dispose() must be called once the operation has finished, to stop watching.
+export class Cancellation {
+    // "Cancelled" or "DeviceLaunchTimeout" once the operation has been aborted
+    public reason: string = null;
+
+    private listeners: ((reason: string) => void)[] = [];
+    private timer: NodeJS.Timer = null;
+    private stopWatchingToken: () => void = null;
+
+    constructor(options: CancellationOptions = {}) {
+        const token: CancellationToken = options.cancellationToken;
+        if (token && (token.aborted || token.isCancellationRequested)) {
+            this.reason = "Cancelled";
+            return;
+        }
+
+        const onCancelled: () => void = () => this.cancel("Cancelled");
+        if (token && token.onCancellationRequested) {
+            const subscription: { dispose(): any } = token.onCancellationRequested(onCancelled);
+            this.stopWatchingToken = () => subscription && subscription.dispose();
+        } else if (token && token.addEventListener) {
+            token.addEventListener("abort", onCancelled);
+            this.stopWatchingToken = () => token.removeEventListener && token.removeEventListener("abort", onCancelled);
+        }
+
+        if (options.timeout) {
+            this.timer = setTimeout(() => this.cancel("DeviceLaunchTimeout"), options.timeout);
+        }
+    }
+
+    public get cancelled(): boolean {
+        return !!this.reason;
+    }
+
+    // Call listener with the reason when the operation is aborted, or straight away if it already has been.
+    // Returns a function which removes the listener again, for when whatever it tears down has finished by itself.
+    public onCancel(listener: (reason: string) => void): () => void {
+        if (this.reason) {
+            listener(this.reason);
+            return () => { /* Nothing to remove */ };
+        }
+
+        this.listeners.push(listener);
+        return () => {
+            const index: number = this.listeners.indexOf(listener);
+            if (index !== -1) {
+                this.listeners.splice(index, 1);
+            }
+        };
+    }
+
+    public dispose(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.stopWatchingToken) {
+            this.stopWatchingToken();
+            this.stopWatchingToken = null;
+        }
+        this.listeners = [];
+    }
+
+    private cancel(reason: string): void {
+        if (this.reason) {
+            return;
+        }
+
+        this.reason = reason;
+        const listeners: ((reason: string) => void)[] = this.listeners;
+        this.dispose();
+        listeners.forEach((listener: (reason: string) => void) => listener(reason));
+    }
+}
@@ -0,0 +1,396 @@
+#!/usr/bin/env node
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as child_process from "child_process";
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import * as Q from "q";
+
+import {ConnectionType} from "./connection";
+import {DebugProxyManager} from "./debugProxyManager";
+import {DebugSession} from "./debugSession";
+import {IDeviceLaunchError} from "./errors";
+import {Logger, setLogger} from "./logger";
+import {AppInfo, LaunchOptions, SessionEndInfo} from "./runApp";
+import {getSignalNumber} from "./signals";
+import * as simpleWrapper from "./simpleWrapper";
+import {TraceRecorder, setTraceRecorder} from "./trace";
+
+// Exit codes. When launching with --wait, the app's own exit code is used if it exits,
+// or 128 + the signal number if it is killed or crashes, as a shell would report it.
+// Losing the connection to the debug server before the app ends is a failure.
+export const ExitSuccess: number = 0;
+export const ExitFailure: number = 1;
+export const ExitUsage: number = 2;
+
+const usage: string = `Usage: idevice-app-launcher <command> [options]
+
+Commands:
+  launch <bundleId>   Launch an installed app
+      --port <port>     Use the debug server proxy on this port. By default the proxy started by
+                        "proxy start" is used, or a proxy is started just for this launch.
+      --timeout <ms>    How long to wait for each step of the launch (default 5000)
+      --wait            Wait for the app to end, and exit with its exit code
+      --arg <value>     Pass an argument to the app; may be repeated
+      --env <name=value>  Set an environment variable for the app; may be repeated
+  proxy start         Start a debug server proxy, and keep it running until "proxy stop"
+      --port <port>     Listen on this port rather than a free one
+  proxy stop          Stop the debug server proxy started by "proxy start"
+  mount-image         Mount the developer disk image
+  list-apps           List the installed apps
+      --all             Include system apps
+
+Options for every command:
+  --udid <udid>       Use this device rather than the first device found
+  --connection <type> Reach the device over "usb" (the default), "network" or "any"
+  --json              Print results as JSON
+  --verbose           Describe each step on stderr
+  --trace <file>      Record every debug server packet and tool run to this file, e.g. to attach to a bug report
+`;
+
+interface ICliArgs {
+    positional: string[];
+    options: { [name: string]: string[] };
+}
+
+interface ICliOutput {
+    stdout: NodeJS.WritableStream;
+    stderr: NodeJS.WritableStream;
+}
+
+interface IProxyRecord {
+    pid: number;
+    port: number;
+    // The command line of the "proxy start" process, as ps reports it, to tell it apart from a process which later reuses its pid
+    command: string;
+}
+
+const valueOptions: string[] = ["port", "timeout", "udid", "connection", "arg", "env", "trace"];
+const flagOptions: string[] = ["wait", "json", "all", "help", "verbose"];
+
+// Run the command line given by args (excluding node and the script), resolving with the exit code
+export function runCli(args: string[], output: ICliOutput = { stdout: process.stdout, stderr: process.stderr }): Q.Promise<number> {
+    let parsed: ICliArgs;
+    try {
+        parsed = parseArgs(args);
+    } catch (e) {
+        output.stderr.write(e.message + "\n\n" + usage);
+        return Q(ExitUsage);
+    }
+
+    const json: boolean = !!parsed.options["json"];
+    const recorder: TraceRecorder = parsed.options["trace"] ? new TraceRecorder(getOption(parsed, "trace")) : null;
+    setTraceRecorder(recorder);
+    setLogger(parsed.options["verbose"] ? makeLogger(output) : null);
+    return Q.fcall(runCommand, parsed, output).catch(function(err: Error): number {
+        if (json) {
+            const launchError: IDeviceLaunchError = err instanceof IDeviceLaunchError ? err : null;
+            output.stdout.write(JSON.stringify({
+                error: {
+                    code: launchError ? launchError.code : null,
+                    step: launchError ? launchError.step : null,
+                    message: err.message
+                }
+            }) + "\n");
+        } else {
+            output.stderr.write(err.message + "\n");
+        }
+        return ExitFailure;
+    }).finally(function(): void {
+        setTraceRecorder(null);
+        setLogger(null);
+        if (recorder) {
+            recorder.save();
+        }
+    });
+}
+
+function runCommand(args: ICliArgs, output: ICliOutput): Q.Promise<number> {
+    const command: string = args.positional.join(" ");
+    if (args.options["help"] || args.positional.length === 0) {
+        output.stdout.write(usage);
+        return Q(args.options["help"] ? ExitSuccess : ExitUsage);
+    } else if (args.positional[0] === "launch" && args.positional.length === 2) {
+        return launch(args.positional[1], args, output);
+    } else if (command === "proxy start") {
+        return startProxy(args, output);
+    } else if (command === "proxy stop") {
+        return stopProxy(args, output);
+    } else if (command === "mount-image") {
+        return simpleWrapper.mountDeveloperImage(getOption(args, "udid"), { connection: getConnectionOption(args) }).then(function(): number {
+            writeResult(output, !!args.options["json"], { mounted: true }, "Mounted the developer disk image");
+            return ExitSuccess;
+        });
+    } else if (command === "list-apps") {
+        return listApps(args, output);
+    }
+
+    output.stderr.write(`Unknown command: ${command}\n\n${usage}`);
+    return Q(ExitUsage);
+}
+
+// Launch the app, and with --wait, wait for it to end. Otherwise detach from it once launched, leaving it running.
+function launch(bundleId: string, args: ICliArgs, output: ICliOutput): Q.Promise<number> {
+    const udid: string = getOption(args, "udid");
+    const connection: ConnectionType = getConnectionOption(args);
+    const json: boolean = !!args.options["json"];
+    const wait: boolean = !!args.options["wait"];
+    const timeout: number = getNumberOption(args, "timeout") || 5000;
+    const env: { [name: string]: string } = {};
+    (args.options["env"] || []).forEach(function(variable: string): void {
+        const separator: number = variable.indexOf("=");
+        if (separator <= 0) {
+            throw new Error(`Environment variables must be given as name=value: ${variable}`);
+        }
+        env[variable.substring(0, separator)] = variable.substring(separator + 1);
+    });
+
+    // A proxy started just for this launch is stopped if this process is told to stop, rather than left running
+    let proxy: DebugProxyManager = null;
+    const interrupted: Q.Deferred<number> = Q.defer<number>();
+    const interrupt: (signal: string) => void = function(signal: string): void {
+        interrupted.resolve(128 + getSignalNumber(signal));
+    };
+
+    let port: Q.Promise<number>;
+    if (getNumberOption(args, "port")) {
+        port = Q(getNumberOption(args, "port"));
+    } else {
+        port = readProxyRecord(udid).then(function(proxyRecord: IProxyRecord): Q.Promise<number> {
+            if (proxyRecord) {
+                return Q(proxyRecord.port);
+            }
+            return simpleWrapper.startDebugProxyManager({ udid: udid, connection: connection }).then(function(manager: DebugProxyManager): number {
+                proxy = manager;
+                process.on("SIGINT", interrupt);
+                process.on("SIGTERM", interrupt);
+                return manager.port;
+            });
+        });
+    }
+
+    const ended: Q.Deferred<SessionEndInfo> = Q.defer<SessionEndInfo>();
+    const launchOptions: LaunchOptions = {
+        args: args.options["arg"] || [],
+        env: env,
+        // JSON output is kept to a single result, so the app's own output goes to stderr instead
+        output: wait ? (json ? output.stderr : output.stdout) : null,
+        collectBacktrace: wait,
+        connection: connection
+    };
+
+    const launched: Q.Promise<number> = port.then(function(proxyPort: number): Q.Promise<DebugSession> {
+        return simpleWrapper.startApp(bundleId, proxyPort, timeout, (isCrash: boolean, info: SessionEndInfo) => ended.resolve(info), udid, launchOptions);
+    }).then(function(session: DebugSession): Q.Promise<number> {
+        if (!wait) {
+            return session.detach().then(function(): number {
+                writeResult(output, json, { bundleId: bundleId, launched: true }, `Launched ${bundleId}`);
+                return ExitSuccess;
+            });
+        }
+
+        return ended.promise.then(function(info: SessionEndInfo): number {
+            writeResult(output, json, { bundleId: bundleId, launched: true, result: info }, describeSessionEnd(info));
+            if (info.kind === "disconnected") {
+                return ExitFailure;
+            }
+            return info.kind === "exited" ? info.exitCode : 128 + (info.signal || 0);
+        });
+    });
+
+    return Q.race([launched, interrupted.promise]).finally(function(): Q.Promise<void> {
+        process.removeListener("SIGINT", interrupt);
+        process.removeListener("SIGTERM", interrupt);
+        return proxy ? proxy.stop() : null;
+    });
+}
+
+// Start a proxy and keep it running until this process is told to stop, recording its port for launch and proxy stop
+function startProxy(args: ICliArgs, output: ICliOutput): Q.Promise<number> {
+    const udid: string = getOption(args, "udid");
+    const recordFile: string = getProxyRecordFile(udid);
+    let manager: DebugProxyManager;
+    return simpleWrapper.startDebugProxyManager({ udid: udid, connection: getConnectionOption(args), port: getNumberOption(args, "port"), autoRestart: true }).then(function(started: DebugProxyManager): Q.Promise<string> {
+        manager = started;
+        return getProcessCommand(process.pid);
+    }).then(function(command: string): Q.Promise<number> {
+        const record: IProxyRecord = { pid: process.pid, port: manager.port, command: command };
+        fs.writeFileSync(recordFile, JSON.stringify(record));
+        writeResult(output, !!args.options["json"], { pid: record.pid, port: record.port }, `Debug server proxy listening on port ${manager.port}`);
+
+        const stopped: Q.Deferred<number> = Q.defer<number>();
+        const stop: () => void = function(): void {
+            process.removeListener("SIGINT", stop);
+            process.removeListener("SIGTERM", stop);
+            removeProxyRecord(udid);
+            manager.stop().done(() => stopped.resolve(ExitSuccess));
+        };
+        process.on("SIGINT", stop);
+        process.on("SIGTERM", stop);
+        manager.on("restartFailed", function(err: Error): void {
+            removeProxyRecord(udid);
+            stopped.reject(err);
+        });
+        return stopped.promise;
+    });
+}
+
+function stopProxy(args: ICliArgs, output: ICliOutput): Q.Promise<number> {
+    const udid: string = getOption(args, "udid");
+    return readProxyRecord(udid).then(function(record: IProxyRecord): number {
+        if (!record) {
+            throw new Error("No debug server proxy is running");
+        }
+
+        process.kill(record.pid, "SIGTERM");
+        writeResult(output, !!args.options["json"], { stopped: true, port: record.port }, `Stopped the debug server proxy on port ${record.port}`);
+        return ExitSuccess;
+    });
+}
+
+function listApps(args: ICliArgs, output: ICliOutput): Q.Promise<number> {
+    return simpleWrapper.listInstalledApps({ udid: getOption(args, "udid"), connection: getConnectionOption(args), includeSystemApps: !!args.options["all"] }).then(function(apps: AppInfo[]): number {
+        if (args.options["json"]) {
+            output.stdout.write(JSON.stringify(apps) + "\n");
+        } else {
+            apps.forEach(function(app: AppInfo): void {
+                output.stdout.write(`${app.bundleId}\t${app.version || ""}\t${app.name || ""}\n`);
+            });
+        }
+        return ExitSuccess;
+    });
+}
+
+function parseArgs(args: string[]): ICliArgs {
+    const parsed: ICliArgs = { positional: [], options: {} };
+    for (let i: number = 0; i < args.length; i++) {
+        if (args[i].indexOf("--") !== 0) {
+            parsed.positional.push(args[i]);
+            continue;
+        }
+
+        const name: string = args[i].substring(2);
+        if (flagOptions.indexOf(name) !== -1) {
+            parsed.options[name] = ["true"];
+        } else if (valueOptions.indexOf(name) !== -1) {
+            if (i + 1 >= args.length) {
+                throw new Error(`Missing value for --${name}`);
+            }
+            parsed.options[name] = (parsed.options[name] || []).concat([args[++i]]);
+        } else {
+            throw new Error(`Unknown option: --${name}`);
+        }
+    }
+    return parsed;
+}
+
+function getOption(args: ICliArgs, name: string): string {
+    const values: string[] = args.options[name];
+    return values ? values[values.length - 1] : null;
+}
+
+function getNumberOption(args: ICliArgs, name: string): number {
+    const value: string = getOption(args, name);
+    if (value === null) {
+        return null;
+    }
+    if (!/^\d+$/.test(value)) {
+        throw new Error(`--${name} must be a number`);
+    }
+    return parseInt(value, 10);
+}
+
+function getConnectionOption(args: ICliArgs): ConnectionType {
+    const value: string = getOption(args, "connection");
+    if (value !== null && ["usb", "network", "any"].indexOf(value) === -1) {
+        throw new Error("--connection must be usb, network or any");
+    }
+    return <ConnectionType>value;
+}
+
+function makeLogger(output: ICliOutput): Logger {
+    const write: (message: string) => void = (message: string) => output.stderr.write(message + "\n");
+    return { debug: write, info: write, warn: write, error: write };
+}
+
+function writeResult(output: ICliOutput, json: boolean, result: any, message: string): void {
+    if (json) {
+        output.stdout.write(JSON.stringify(result) + "\n");
+    } else {
+        output.stderr.write(message + "\n");
+    }
+}
+
+function describeSessionEnd(info: SessionEndInfo): string {
+    const backtrace: string = info.stopInfo && info.stopInfo.backtrace.length ? "\n    " + info.stopInfo.backtrace.join("\n    ") : "";
+    switch (info.kind) {
+        case "exited":
+            return `The app exited with code ${info.exitCode}`;
+        case "signaled":
+            return `The app was terminated by ${info.signalName}`;
+        case "stopped":
+            return `The app crashed with ${info.signalName}${backtrace}`;
+        case "disconnected":
+            return `Lost the connection to the debug server before the app ended. Was the device unplugged?`;
+        default:
+            return `The app is no longer being debugged`;
+    }
+}
+
+// "proxy start" records its process id and port in a temporary file for each device
+function getProxyRecordFile(udid: string): string {
+    return path.join(os.tmpdir(), `idevice-app-launcher-proxy-${udid || "default"}.json`);
+}
+
+// Resolves with the record, or null if there is none or the process it names is no longer the proxy.
+// The pid may have been reused by an unrelated process since, so its command line has to match and the port still has to accept connections.
+function readProxyRecord(udid: string): Q.Promise<IProxyRecord> {
+    let record: IProxyRecord;
+    try {
+        record = JSON.parse(fs.readFileSync(getProxyRecordFile(udid), "utf8"));
+    } catch (e) {
+        return Q<IProxyRecord>(null);
+    }
+
+    return Q.all<any>([getProcessCommand(record.pid), isListening(record.port)]).spread(function(command: string, listening: boolean): IProxyRecord {
+        return command && command === record.command && listening ? record : null;
+    });
+}
+
+// The command line of the process with the given id, or null if there is no such process
+function getProcessCommand(pid: number): Q.Promise<string> {
+    const deferred: Q.Deferred<string> = Q.defer<string>();
+    child_process.execFile("ps", ["-ww", "-o", "command=", "-p", pid.toString()], function(err: Error, stdout: string): void {
+        deferred.resolve(err ? null : stdout.trim());
+    });
+    return deferred.promise;
+}
+
+function isListening(port: number): Q.Promise<boolean> {
+    const deferred: Q.Deferred<boolean> = Q.defer<boolean>();
+    const socket: net.Socket = net.connect(port, "127.0.0.1", function(): void {
+        socket.end();
+        deferred.resolve(true);
+    });
+    socket.on("error", () => deferred.resolve(false));
+    return deferred.promise;
+}
+
+function removeProxyRecord(udid: string): void {
+    try {
+        fs.unlinkSync(getProxyRecordFile(udid));
+    } catch (e) {
+        // Already removed
+    }
+}
+
+if (require.main === module) {
+    runCli(process.argv.slice(2)).done(function(exitCode: number): void {
+        process.exit(exitCode);
+    });
+}
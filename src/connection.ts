@@ -0,0 +1,54 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+// How to reach the device: "usb" for devices plugged in, "network" for devices paired over Wi-Fi,
+// or "any" for either, preferring USB for a device which can be reached both ways
+export type ConnectionType = "usb" | "network" | "any";
+
+export interface ConnectionOptions {
+    // "usb" by default
+    connection?: ConnectionType;
+}
+
+// A device found by listConnectedDevices, with connection "usb" or "network"
+export interface ConnectedDevice {
+    udid: string;
+    connection: ConnectionType;
+}
+
+// Arguments for idevice_id to list the devices reachable through the connection
+export function listDevicesArgs(connection: ConnectionType = "usb"): string[] {
+    if (connection === "network") {
+        return ["-n"];
+    } else if (connection === "any") {
+        return ["-l", "-n"];
+    }
+    return ["-l"];
+}
+
+// Parse the devices listed by idevice_id. Each line has a UDID, followed by " (USB)" or " (Network)" when both kinds are listed.
+// A device reachable both ways is listed twice.
+export function parseDeviceList(output: string, connection: ConnectionType = "usb"): ConnectedDevice[] {
+    return output.split("\n").map((line: string) => line.trim()).filter((line: string) => !!line).map(function(line: string): ConnectedDevice {
+        let deviceConnection: ConnectionType = connection === "network" ? "network" : "usb";
+        if (/\(Network\)$/i.test(line)) {
+            deviceConnection = "network";
+        } else if (/\(USB\)$/i.test(line)) {
+            deviceConnection = "usb";
+        }
+        return { udid: line.split(" ")[0], connection: deviceConnection };
+    });
+}
+
+// Arguments selecting the connection for the other libimobiledevice tools, which only look for devices plugged in unless given -n.
+// connection must have been narrowed down from "any" to "usb" or "network" first.
+export function connectionArgs(connection: ConnectionType = "usb"): string[] {
+    return connection === "network" ? ["-n"] : [];
+}
+
+// The error for the tools finding no device: devices on the network are not "plugged in"
+export function noDeviceError(connection: ConnectionType = "usb"): string {
+    return connection === "network" ? "NoNetworkDeviceFound" : "NoDeviceAttached";
+}
@@ -0,0 +1,254 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as child_process from "child_process";
+import * as events from "events";
+import * as net from "net";
+import * as Q from "q";
+
+import {Cancellation, CancellationOptions} from "./cancellation";
+import {ConnectionOptions, ConnectionType, connectionArgs} from "./connection";
+import {DiskImageOptions} from "./diskImage";
+import {IDeviceLaunchError} from "./errors";
+import {GdbPacketReader, makeGdbCommand} from "./gdbRemote";
+import {getLogger} from "./logger";
+import {StepTiming} from "./timings";
+import {spawnTraced} from "./trace";
+
+// cancellationToken and timeout apply to starting the proxy, not to restarting it.
+// The disk image options are used by startDebugProxyManager to mount the developer disk image first.
+// A connection of "any" is narrowed down to how the device is connected by startDebugProxyManager, and otherwise treated as "usb".
+export interface DebugProxyOptions extends CancellationOptions, DiskImageOptions, ConnectionOptions {
+    // The port to listen on. If omitted or 0, a free port is picked.
+    port?: number;
+    // The device to debug. The first device found is used if omitted.
+    udid?: string;
+    // How long to wait for the proxy to accept connections, in milliseconds
+    readyTimeout?: number;
+    // Start the proxy again, on the same port, if it exits without being stopped
+    autoRestart?: boolean;
+    maxRestarts?: number;
+    // How long to wait for the proxy to exit after SIGHUP before sending SIGKILL, in milliseconds
+    killTimeout?: number;
+}
+
+// Runs idevicedebugserverproxy, which forwards connections on a local port to debugserver on the device.
+// start() resolves with the port once the proxy accepts connections.
+// Events:
+//   "exit" (code: number, signal: string) when the proxy exits without being stopped
+//   "restarted" (port: number) when the proxy has been restarted after such an exit and is ready again
+//   "restartFailed" (err: IDeviceLaunchError) when the proxy could not be restarted
+export class DebugProxyManager extends events.EventEmitter {
+    public port: number;
+    public udid: string;
+    public connection: ConnectionType;
+    public process: child_process.ChildProcess = null;
+    // How long each step of starting the proxy took, set by startDebugProxyManager
+    public timings: StepTiming[] = [];
+
+    private options: DebugProxyOptions;
+    private readyTimeout: number;
+    private autoRestart: boolean;
+    private maxRestarts: number;
+    private killTimeout: number;
+    private restarts: number = 0;
+    private stopping: boolean = false;
+
+    // Find a port that nothing is listening on, by briefly listening on a port picked by the OS
+    public static findFreePort(): Q.Promise<number> {
+        const deferred: Q.Deferred<number> = Q.defer<number>();
+        const server: net.Server = net.createServer();
+        server.once("error", function(err: any): void {
+            deferred.reject(err);
+        });
+        server.listen(0, "127.0.0.1", function(): void {
+            const port: number = server.address().port;
+            server.close(function(): void {
+                deferred.resolve(port);
+            });
+        });
+        return deferred.promise;
+    }
+
+    constructor(options: DebugProxyOptions = {}) {
+        super();
+        this.options = options;
+        this.port = options.port || 0;
+        this.udid = options.udid || null;
+        this.connection = options.connection || "usb";
+        this.readyTimeout = options.readyTimeout || 5000;
+        this.autoRestart = !!options.autoRestart;
+        this.maxRestarts = typeof options.maxRestarts === "number" ? options.maxRestarts : 3;
+        this.killTimeout = options.killTimeout || 2000;
+    }
+
+    public get running(): boolean {
+        return !!this.process;
+    }
+
+    public start(cancellation?: Cancellation): Q.Promise<number> {
+        const ownCancellation: Cancellation = cancellation ? null : new Cancellation(this.options);
+        this.stopping = false;
+        const port: Q.Promise<number> = this.port ? Q(this.port) : DebugProxyManager.findFreePort();
+        return port.then((freePort: number) => {
+            this.port = freePort;
+            return this.spawnProxy(cancellation || ownCancellation);
+        }).then(() => this.port).finally(() => ownCancellation && ownCancellation.dispose());
+    }
+
+    // Stop the proxy with SIGHUP, since idevicedebugserverproxy does not exit from SIGTERM, falling back to SIGKILL
+    public stop(): Q.Promise<void> {
+        this.stopping = true;
+        const proxy: child_process.ChildProcess = this.process;
+        if (!proxy) {
+            return Q<void>(null);
+        }
+
+        const deferred: Q.Deferred<void> = Q.defer<void>();
+        const killTimer: NodeJS.Timer = setTimeout(function(): void {
+            proxy.kill("SIGKILL");
+        }, this.killTimeout);
+        proxy.once("exit", function(): void {
+            clearTimeout(killTimer);
+            deferred.resolve(null);
+        });
+        proxy.kill("SIGHUP");
+        return deferred.promise;
+    }
+
+    // Whether the proxy is running and still reaches debugserver on the device, which it shows by answering a packet.
+    // A proxy which has lost the device still accepts connections, but closes them without an answer.
+    public isHealthy(): Q.Promise<boolean> {
+        const proxy: child_process.ChildProcess = this.process;
+        if (!proxy || this.stopping) {
+            return Q(false);
+        }
+
+        const deferred: Q.Deferred<boolean> = Q.defer<boolean>();
+        const reader: GdbPacketReader = new GdbPacketReader();
+        const socket: net.Socket = net.connect(this.port, "127.0.0.1", function(): void {
+            // Any answer will do, even an error or an empty packet for a query debugserver does not support
+            socket.write(makeGdbCommand("qC"), "binary");
+        });
+        const timer: NodeJS.Timer = setTimeout(() => deferred.resolve(false), this.readyTimeout);
+        reader.on("packet", () => deferred.resolve(this.process === proxy));
+        socket.on("data", (data: Buffer) => reader.push(data));
+        socket.on("error", () => deferred.resolve(false));
+        socket.on("close", () => deferred.resolve(false));
+        return deferred.promise.finally(function(): void {
+            clearTimeout(timer);
+            socket.destroy();
+        });
+    }
+
+    // Older versions of this package stop whatever is kept in SharedState by calling kill("SIGHUP") on it
+    public kill(signal?: string): void {
+        this.stop().done();
+    }
+
+    private spawnProxy(cancellation: Cancellation = new Cancellation()): Q.Promise<void> {
+        const deferred: Q.Deferred<void> = Q.defer<void>();
+        const args: string[] = (this.udid ? ["-u", this.udid] : []).concat(connectionArgs(this.connection), [this.port.toString()]);
+        const proxy: child_process.ChildProcess = spawnTraced("idevicedebugserverproxy", args);
+        let stderr: string = "";
+        let ready: boolean = false;
+        let notReadyError: IDeviceLaunchError = null;
+        let exitError: IDeviceLaunchError = null;
+        this.process = proxy;
+
+        proxy.stderr.on("data", function(data: any): void {
+            stderr += data.toString();
+            // The last of it may only arrive after the proxy has exited
+            if (exitError) {
+                exitError.stderr = stderr;
+            }
+        });
+        proxy.once("error", (err: any) => {
+            // The proxy never started, so stop waiting for it to listen
+            stopWatching();
+            exitError = new IDeviceLaunchError(err.code === "ENOENT" ? "IDeviceDebugServerProxyNotFound" : "ErrorStartingDebugProxy", "proxy", err);
+            this.process = null;
+            deferred.reject(exitError);
+        });
+        proxy.once("exit", (code: number, signal: string) => {
+            stopWatching();
+            exitError = new IDeviceLaunchError("IDeviceDebugServerProxyExitedEarly", "proxy", new Error(`The proxy exited with ${signal || "code " + code}`), stderr);
+            if (this.process === proxy) {
+                this.process = null;
+            }
+            if (!ready) {
+                deferred.reject(notReadyError || exitError);
+            } else if (!this.stopping) {
+                getLogger().warn(`The debug server proxy on port ${this.port} exited unexpectedly with ${signal || "code " + code}: ${stderr.trim()}`);
+                this.emit("exit", code, signal);
+                this.restart();
+            }
+        });
+
+        const stopWatching: () => void = cancellation.onCancel((reason: string) => {
+            notReadyError = new IDeviceLaunchError(reason, "proxy");
+            this.stop().done();
+        });
+
+        DebugProxyManager.waitForPort(this.port, this.readyTimeout, () => exitError).done(() => {
+            stopWatching();
+            ready = true;
+            getLogger().info(`The debug server proxy is listening on port ${this.port}`);
+            deferred.resolve(null);
+        }, (err: IDeviceLaunchError) => {
+            // Rejected by the exit handler once the proxy has been stopped, or already if it exited by itself
+            notReadyError = notReadyError || err;
+            this.stop().done();
+        });
+
+        return deferred.promise;
+    }
+
+    private restart(): void {
+        if (!this.autoRestart || this.restarts >= this.maxRestarts) {
+            return;
+        }
+
+        this.restarts++;
+        this.spawnProxy().done(() => {
+            this.emit("restarted", this.port);
+        }, (err: IDeviceLaunchError) => {
+            getLogger().error(`Unable to restart the debug server proxy: ${err.message}`);
+            this.emit("restartFailed", err);
+        });
+    }
+
+    // Keep trying to connect to the port until something accepts the connection or the time runs out.
+    // Gives up with the error exited() returns, once it returns one because the proxy has exited.
+    private static waitForPort(port: number, timeout: number, exited: () => IDeviceLaunchError): Q.Promise<void> {
+        const deadline: number = Date.now() + timeout;
+        const deferred: Q.Deferred<void> = Q.defer<void>();
+
+        function probe(): void {
+            const exitError: IDeviceLaunchError = exited();
+            if (exitError) {
+                deferred.reject(exitError);
+                return;
+            }
+
+            const socket: net.Socket = net.connect(port, "127.0.0.1");
+            socket.once("connect", function(): void {
+                socket.end();
+                deferred.resolve(null);
+            });
+            socket.once("error", function(err: any): void {
+                socket.destroy();
+                if (Date.now() >= deadline) {
+                    deferred.reject(new IDeviceLaunchError("DebugProxyNotReady", "proxy", err));
+                } else {
+                    setTimeout(probe, 100);
+                }
+            });
+        }
+
+        probe();
+        return deferred.promise;
+    }
+}
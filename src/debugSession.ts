@@ -0,0 +1,185 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as events from "events";
+import * as net from "net";
+import * as Q from "q";
+
+import {Diagnostics} from "./diagnostics";
+import {IDeviceLaunchError} from "./errors";
+import {GdbRemoteConnection} from "./gdbRemote";
+import {ProcessInfo} from "./processInfo";
+import {SessionEndCallback, SessionEndInfo, SessionEndKind} from "./runApp";
+import {getSignalName} from "./signals";
+import {StopInfo} from "./stopReply";
+import {StepTiming} from "./timings";
+
+// An app launched by startAppViaDebugger, which keeps running under debugserver until it exits, crashes, is killed or is detached.
+// Commands are sent one at a time, each resolving on the debug server's reply to it.
+// Events:
+//   "output" (text: string) for the app's console output, decoded as UTF-8. Output written before the launch resolves
+//   only goes to LaunchOptions.output, since nothing can listen to the session before then.
+export class DebugSession extends events.EventEmitter {
+    // The connection to the debug server proxy, speaking the gdb remote protocol
+    public socket: net.Socket;
+    // The app's process id and other details, as reported by qProcessInfo. Null if the debug server did not report them.
+    public pid: number = null;
+    public processInfo: ProcessInfo = null;
+    public startTime: number = Date.now();
+    // How long each step of the launch took, in order
+    public timings: StepTiming[] = [];
+    // How the session ended, once it has
+    public endInfo: SessionEndInfo = null;
+    // For sessions started with diagnostics, resolved once they have been collected after the session has ended
+    public diagnostics: Q.Promise<Diagnostics> = null;
+
+    private connection: GdbRemoteConnection;
+    private commandTimeout: number;
+    private sessionEndCallback: SessionEndCallback;
+    private commands: Q.Promise<any> = Q(null);
+
+    // The command in progress waits for one of these
+    private pendingStop: Q.Deferred<StopInfo> = null;
+    private pendingEnd: Q.Deferred<SessionEndInfo> = null;
+    private pendingAck: Q.Deferred<void> = null;
+
+    constructor(socket: net.Socket, connection: GdbRemoteConnection, commandTimeout: number, sessionEndCallback?: SessionEndCallback) {
+        super();
+        this.socket = socket;
+        this.connection = connection;
+        this.commandTimeout = commandTimeout;
+        this.sessionEndCallback = sessionEndCallback;
+
+        connection.on("ack", () => {
+            if (this.pendingAck) {
+                this.pendingAck.resolve(null);
+            }
+        });
+    }
+
+    public get ended(): boolean {
+        return !!this.endInfo;
+    }
+
+    // Stop the app where it is, as if it hit a breakpoint, resolving with where it stopped. continue() lets it run again.
+    public interrupt(): Q.Promise<StopInfo> {
+        return this.runCommand<StopInfo>("interrupt", (deferred: Q.Deferred<StopInfo>) => {
+            this.pendingStop = deferred;
+            this.connection.interrupt();
+        });
+    }
+
+    // Let the app run again after interrupt(), resolving once the debug server has received the command
+    public continue(): Q.Promise<void> {
+        return this.runCommand<void>("c", (deferred: Q.Deferred<void>) => {
+            this.pendingAck = deferred;
+            this.connection.send("c");
+        });
+    }
+
+    // Terminate the app, resolving once debugserver reports that it has exited
+    public kill(): Q.Promise<SessionEndInfo> {
+        return this.runCommand<SessionEndInfo>("k", (deferred: Q.Deferred<SessionEndInfo>) => {
+            this.pendingEnd = deferred;
+            this.connection.send("k");
+        });
+    }
+
+    // Stop debugging and disconnect, leaving the app running on the device
+    public detach(): Q.Promise<SessionEndInfo> {
+        return this.runCommand<SessionEndInfo>("D", (deferred: Q.Deferred<SessionEndInfo>) => {
+            this.pendingEnd = deferred;
+            this.connection.send("D");
+        });
+    }
+
+    // Called when the app has stopped. Returns whether the stop was requested by interrupt(), rather than a crash.
+    public handleStop(stopInfo: StopInfo): boolean {
+        if (!this.pendingStop) {
+            return false;
+        }
+
+        this.pendingStop.resolve(stopInfo);
+        return true;
+    }
+
+    // Called with replies which do not end the session, such as "OK" or "E01"
+    public handleReply(packet: string): void {
+        if (packet === "OK" && this.pendingEnd) {
+            // Only detaching is acknowledged with OK
+            this.end(false, "detached", null, null);
+        } else if (packet[0] === "E") {
+            this.rejectPending(new IDeviceLaunchError("SessionCommandFailed", null, new Error(`The debug server replied ${packet}`)));
+        }
+    }
+
+    // Called when the connection to the debug server has closed. Unless the session had already ended,
+    // it ends as "disconnected", and the command in progress and any later ones fail with SessionEnded.
+    public handleDisconnect(): void {
+        this.rejectPending(new IDeviceLaunchError("SessionEnded"));
+        this.end(false, "disconnected", null, null);
+    }
+
+    // Called once the app has exited, crashed, been killed or been detached from. Only the first call has any effect.
+    public end(isCrash: boolean, kind: SessionEndKind, exitCode: number, signal: number, stopInfo: StopInfo = null): void {
+        if (this.endInfo) {
+            return;
+        }
+
+        this.endInfo = {
+            kind: kind,
+            exitCode: exitCode,
+            signal: signal,
+            signalName: signal === null ? null : getSignalName(signal),
+            duration: Date.now() - this.startTime,
+            stopInfo: stopInfo
+        };
+        this.socket.end();
+        if (this.sessionEndCallback) {
+            this.sessionEndCallback(isCrash, this.endInfo, this);
+        }
+
+        if (this.pendingEnd) {
+            this.pendingEnd.resolve(this.endInfo);
+        }
+        this.rejectPending(new IDeviceLaunchError("SessionEnded"));
+    }
+
+    // Run commands one after another, so that each reply is matched with the right command
+    private runCommand<T>(step: string, send: (deferred: Q.Deferred<T>) => void): Q.Promise<T> {
+        const run: () => Q.Promise<T> = () => {
+            if (this.endInfo) {
+                return Q.reject<T>(new IDeviceLaunchError("SessionEnded", step));
+            }
+
+            const deferred: Q.Deferred<T> = Q.defer<T>();
+            const timer: NodeJS.Timer = setTimeout(function(): void {
+                deferred.reject(new IDeviceLaunchError("DebuggerQueryTimeout", step));
+            }, this.commandTimeout);
+            send(deferred);
+            return deferred.promise.catch(function(err: IDeviceLaunchError): T {
+                err.step = err.step || step;
+                throw err;
+            }).finally(() => {
+                clearTimeout(timer);
+                this.pendingStop = null;
+                this.pendingEnd = null;
+                this.pendingAck = null;
+            });
+        };
+
+        const result: Q.Promise<T> = this.commands.then(run);
+        this.commands = result.catch((): void => null);
+        return result;
+    }
+
+    private rejectPending(err: IDeviceLaunchError): void {
+        [this.pendingStop, this.pendingEnd, this.pendingAck].forEach(function(pending: Q.Deferred<any>): void {
+            if (pending) {
+                pending.reject(err);
+            }
+        });
+    }
+}
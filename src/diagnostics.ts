@@ -0,0 +1,171 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as child_process from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as Q from "q";
+
+import {getLogger} from "./logger";
+import {spawnTraced} from "./trace";
+
+export interface DiagnosticsOptions {
+    // The directory to write the diagnostics to, created along with its parents if it does not exist
+    directory: string;
+    // Fetch the app's new crash reports from the device if it crashes or is killed by a signal, true by default
+    crashReports?: boolean;
+    // Milliseconds to give the device to write the crash report before fetching crash reports, 5000 by default
+    crashReportDelay?: number;
+}
+
+// Where the diagnostics of a session were written
+export interface Diagnostics {
+    directory: string;
+    // The device's log messages from the app while the session lasted
+    syslogFile: string;
+    // The app, the device and how the session ended or why the launch failed, as JSON
+    sessionFile: string;
+    // Crash reports for the app written during the session, copied from the device
+    crashReports: string[];
+}
+
+// Collects the device's log of an app for the lifetime of its session, and its crash reports after it crashes.
+// Collecting diagnostics never fails the session: anything which cannot be collected is logged and left out.
+export class DiagnosticsCollector {
+    // Resolved once finish() has written everything to the directory
+    public result: Q.Promise<Diagnostics>;
+
+    private options: DiagnosticsOptions;
+    private processName: string;
+    private deviceArgs: string[];
+    private startTime: number = null;
+    private syslog: child_process.ChildProcess = null;
+    private syslogLines: string[] = [];
+    private finishing: boolean = false;
+    private finished: Q.Deferred<Diagnostics> = Q.defer<Diagnostics>();
+
+    // deviceArgs select the device for idevicesyslog and idevicecrashreport, e.g. ["-u", udid]
+    constructor(options: DiagnosticsOptions, processName: string, deviceArgs: string[]) {
+        this.options = options;
+        this.processName = processName;
+        this.deviceArgs = deviceArgs;
+        this.result = this.finished.promise;
+    }
+
+    // Start recording the device's log messages from the app
+    public start(): void {
+        this.startTime = Date.now();
+        // Messages look like "Oct 19 10:00:00 iPhone MyApp(UIKitCore)[1234] <Notice>: message"
+        const fromApp: RegExp = new RegExp("\\s" + this.processName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") + "(\\([^)]*\\))?\\[\\d+\\]");
+        let partialLine: string = "";
+        this.syslog = spawnTraced("idevicesyslog", this.deviceArgs);
+        this.syslog.stdout.on("data", (data: Buffer) => {
+            const lines: string[] = (partialLine + data.toString()).split("\n");
+            partialLine = lines.pop();
+            this.syslogLines.push(...lines.filter((line: string) => fromApp.test(line)));
+        });
+        this.syslog.on("error", function(err: any): void {
+            getLogger().warn(`Unable to read the device's log: ${err.message}`);
+        });
+    }
+
+    // Stop recording and write the diagnostics, including the details given in the session file.
+    // If the session ended abnormally, the app's crash reports written since start() are fetched too.
+    public finish(details: { [key: string]: any }, abnormal: boolean): Q.Promise<Diagnostics> {
+        if (this.finishing) {
+            return this.result;
+        }
+        this.finishing = true;
+        if (this.syslog) {
+            this.syslog.kill();
+            this.syslog = null;
+        }
+
+        const diagnostics: Diagnostics = {
+            directory: this.options.directory,
+            syslogFile: path.join(this.options.directory, "syslog.txt"),
+            sessionFile: path.join(this.options.directory, "session.json"),
+            crashReports: []
+        };
+        Q.fcall((): any => {
+            makeDirectory(diagnostics.directory);
+            fs.writeFileSync(diagnostics.syslogFile, this.syslogLines.map((line: string) => line + "\n").join(""));
+            fs.writeFileSync(diagnostics.sessionFile, JSON.stringify(details, null, 2));
+            if (!abnormal || this.options.crashReports === false) {
+                return [];
+            }
+
+            const delay: number = typeof this.options.crashReportDelay === "number" ? this.options.crashReportDelay : 5000;
+            return Q.delay(delay).then(() => this.fetchCrashReports(diagnostics.directory));
+        }).then(function(crashReports: string[]): void {
+            diagnostics.crashReports = crashReports;
+        }).catch(function(err: any): void {
+            getLogger().warn(`Unable to collect diagnostics: ${err.message}`);
+        }).done(() => this.finished.resolve(diagnostics));
+        return this.result;
+    }
+
+    // Copy the app's crash reports from the device into the directory, resolving with their paths.
+    // idevicecrashreport copies every report on the device, so it copies into a scratch directory which is removed again.
+    private fetchCrashReports(directory: string): Q.Promise<string[]> {
+        const scratch: string = path.join(directory, ".crashreports");
+        const deferred: Q.Deferred<void> = Q.defer<void>();
+        removeDirectory(scratch);
+        fs.mkdirSync(scratch);
+        // -k leaves the reports on the device, and -e extracts the report itself from each .ips file
+        const tool: child_process.ChildProcess = spawnTraced("idevicecrashreport", this.deviceArgs.concat(["-k", "-e", scratch]));
+        tool.on("error", (err: Error) => deferred.reject(err));
+        tool.on("close", function(code: number): void {
+            if (code === 0) {
+                deferred.resolve(null);
+            } else {
+                deferred.reject(new Error(`idevicecrashreport exited with code ${code}`));
+            }
+        });
+
+        return deferred.promise.then(() => {
+            // Reports are named after the process, e.g. MyApp-2018-10-19-100000.ips, and keep their times from the device
+            return listFiles(scratch).filter((file: string) => {
+                const name: string = path.basename(file);
+                return name.indexOf(this.processName + "-") === 0 && /\.(ips|crash)$/.test(name) && fs.statSync(file).mtime.getTime() >= this.startTime - 1000;
+            }).map(function(file: string): string {
+                const target: string = path.join(directory, path.basename(file));
+                fs.writeFileSync(target, fs.readFileSync(file));
+                return target;
+            });
+        }).finally(() => removeDirectory(scratch));
+    }
+}
+
+// Create the directory if it does not exist, and any of its parents which do not exist either
+function makeDirectory(directory: string): void {
+    if (fs.existsSync(directory)) {
+        return;
+    }
+    makeDirectory(path.dirname(directory));
+    fs.mkdirSync(directory);
+}
+
+function listFiles(directory: string): string[] {
+    return fs.readdirSync(directory).reduce(function(files: string[], name: string): string[] {
+        const file: string = path.join(directory, name);
+        return files.concat(fs.statSync(file).isDirectory() ? listFiles(file) : [file]);
+    }, []);
+}
+
+function removeDirectory(directory: string): void {
+    if (!fs.existsSync(directory)) {
+        return;
+    }
+    fs.readdirSync(directory).forEach(function(name: string): void {
+        const file: string = path.join(directory, name);
+        if (fs.statSync(file).isDirectory()) {
+            removeDirectory(file);
+        } else {
+            fs.unlinkSync(file);
+        }
+    });
+    fs.rmdirSync(directory);
+}
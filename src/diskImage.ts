@@ -0,0 +1,118 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as fs from "fs";
+import * as path from "path";
+
+import * as pl from "plist";
+
+import {IDeviceLaunchError} from "./errors";
+
+export interface DiskImageOptions {
+    // Use this developer disk image rather than searching for one
+    diskImagePath?: string;
+    // The signature of diskImagePath, by default diskImagePath + ".signature"
+    diskImageSignaturePath?: string;
+    // Further directories to search before Xcode's, each either an iPhoneOS.platform directory or a DeviceSupport directory in one.
+    // With these, Xcode is not needed.
+    diskImageSearchPaths?: string[];
+}
+
+export interface DiskImage {
+    imagePath: string;
+    signaturePath: string;
+    // The iOS version the image is for, as named by its directory, e.g. "11.1 (15B93)". Null for an image given by diskImagePath.
+    version: string;
+}
+
+const imageName: string = "DeveloperDiskImage.dmg";
+
+// Find the developer disk image for a device running the given iOS version, e.g. "11.1.2".
+// The image for the same major and minor version is used if there is one, and otherwise the image for the closest earlier version.
+// Throws an IDeviceLaunchError if there is no suitable image, or it has no signature beside it.
+export function findDiskImage(deviceVersion: string, options: DiskImageOptions, searchPaths: string[]): DiskImage {
+    if (options.diskImagePath) {
+        if (!isFile(options.diskImagePath)) {
+            throw new IDeviceLaunchError("FailedFindDeveloperDiskImage", "mount", new Error(`${options.diskImagePath} does not exist`));
+        }
+        return checkSignature({
+            imagePath: options.diskImagePath,
+            signaturePath: options.diskImageSignaturePath || options.diskImagePath + ".signature",
+            version: null
+        });
+    }
+
+    const wanted: number[] = parseVersion(deviceVersion);
+    if (!wanted) {
+        throw new IDeviceLaunchError("FailedGetDeviceInfo", "mount", new Error(`Unrecognized iOS version ${deviceVersion}`));
+    }
+
+    let best: DiskImage = null;
+    let bestVersion: number[] = null;
+    searchPaths.forEach(function(searchPath: string): void {
+        [path.join(searchPath, "DeviceSupport"), searchPath].forEach(function(directory: string): void {
+            listDirectory(directory).forEach(function(name: string): void {
+                const version: number[] = parseVersion(name);
+                const imagePath: string = path.join(directory, name, imageName);
+                // Earlier search paths win between images for the same version
+                if (!version || compareVersions(version, wanted) > 0 || (bestVersion && compareVersions(version, bestVersion) <= 0) || !isFile(imagePath)) {
+                    return;
+                }
+                best = { imagePath: imagePath, signaturePath: imagePath + ".signature", version: name };
+                bestVersion = version;
+            });
+        });
+    });
+
+    if (!best) {
+        throw new IDeviceLaunchError("FailedFindDeveloperDiskImage", "mount", new Error(`No developer disk image for iOS ${deviceVersion} in ${searchPaths.join(", ")}`));
+    }
+    return checkSignature(best);
+}
+
+// Whether the output of "ideviceimagemounter -l -x" shows that a developer disk image is already mounted
+export function isDiskImageMounted(output: string): boolean {
+    let status: any;
+    try {
+        status = pl.parse(output);
+    } catch (e) {
+        return false;
+    }
+    return !!status && Array.isArray(status.ImageSignature) && status.ImageSignature.length > 0;
+}
+
+function checkSignature(image: DiskImage): DiskImage {
+    if (!isFile(image.signaturePath)) {
+        throw new IDeviceLaunchError("DeveloperDiskImageSignatureMissing", "mount", new Error(`${image.signaturePath} does not exist`));
+    }
+    return image;
+}
+
+// Versions are compared by major and minor version only, since images are only made for those.
+// Directories are named e.g. "11.1" or "11.1 (15B93)".
+function parseVersion(version: string): number[] {
+    const match: RegExpMatchArray = /^(\d+)\.(\d+)(?:\.\d+)*(?: \(.*\))?$/.exec(version.trim());
+    return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : null;
+}
+
+function compareVersions(a: number[], b: number[]): number {
+    return a[0] - b[0] || a[1] - b[1];
+}
+
+function listDirectory(directory: string): string[] {
+    try {
+        return fs.readdirSync(directory);
+    } catch (e) {
+        return [];
+    }
+}
+
+function isFile(file: string): boolean {
+    try {
+        return fs.statSync(file).isFile();
+    } catch (e) {
+        return false;
+    }
+}
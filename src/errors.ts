@@ -0,0 +1,29 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+// Every failure is reported as an IDeviceLaunchError. Its code is a stable id such as "PackageNotInstalled",
+// which simpleWrapper maps to a readable message. Until then, the message is the code itself.
+// The step is where the failure happened: "devices", "info", "list", "install", "uninstall", "mount", "proxy",
+// "connect", or the debug server message being sent ("QEnvironment", "A", "Hc0", "c").
+export class IDeviceLaunchError extends Error {
+    public name: string = "IDeviceLaunchError";
+    public code: string;
+    public step: string;
+    // The underlying error, if any, e.g. from spawning a tool or connecting to the debug server proxy
+    public cause: any;
+    // Anything the failing tool wrote to stderr
+    public stderr: string;
+
+    constructor(code: string, step: string = null, cause: any = null, stderr: string = null) {
+        super(code);
+        // Error does not initialize subclasses when compiled to ES5
+        this.message = code;
+        this.stack = (<Error>new Error(code)).stack;
+        this.code = code;
+        this.step = step;
+        this.cause = cause;
+        this.stderr = stderr || (cause && cause.stderr) || null;
+    }
+}
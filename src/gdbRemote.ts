@@ -0,0 +1,283 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as events from "events";
+import * as net from "net";
+
+import {TraceRecorder, getTraceRecorder} from "./trace";
+
+// Streaming reader and writer for the gdb remote serial protocol spoken by debugserver.
+// Packets are framed as $<body>#<two hex digit checksum>, and each packet is acknowledged with '+' or rejected with '-'.
+// Within a body, '}' escapes the following character (XOR 0x20) and '*' run-length encodes the preceding character.
+// Framing and checksums work on raw bytes, held in "binary" strings, while payloads are UTF-8 text.
+// For more info, see https://sourceware.org/gdb/onlinedocs/gdb/Overview.html
+
+export interface IGdbOutput {
+    write(data: string, encoding?: string): any;
+}
+
+const enum ReaderState {
+    Idle,
+    Body,
+    Checksum
+}
+
+export function computeChecksum(body: string): string {
+    let stringSum: number = 0;
+    for (let i: number = 0; i < body.length; i++) {
+        stringSum += body.charCodeAt(i);
+    }
+
+    stringSum = stringSum % 256;
+
+    let checksum: string = stringSum.toString(16).toUpperCase();
+    if (checksum.length < 2) {
+        checksum = "0" + checksum;
+    }
+
+    return checksum;
+}
+
+// Escape the characters which would otherwise be interpreted as framing
+export function escapeBody(body: string): string {
+    return body.replace(/[$#}*]/g, (char: string) => "}" + String.fromCharCode(char.charCodeAt(0) ^ 0x20));
+}
+
+// Undo escaping and expand run-length encoded sequences in a received packet body
+export function decodeBody(body: string): string {
+    let decoded: string = "";
+    let previous: string = "";
+    for (let i: number = 0; i < body.length; i++) {
+        const char: string = body[i];
+        if (char === "}" && i + 1 < body.length) {
+            previous = String.fromCharCode(body.charCodeAt(++i) ^ 0x20);
+            decoded += previous;
+        } else if (char === "*" && i + 1 < body.length) {
+            // The repeat count is encoded as a printable character, offset by 29
+            const repeat: number = body.charCodeAt(++i) - 29;
+            for (let j: number = 0; j < repeat; j++) {
+                decoded += previous;
+            }
+        } else {
+            previous = char;
+            decoded += char;
+        }
+    }
+
+    return decoded;
+}
+
+// Returns the framed packet as a "binary" string, which must be written with that encoding to send the UTF-8 bytes of the command
+export function makeGdbCommand(command: string): string {
+    const body: string = escapeBody(new Buffer(command, "utf8").toString("binary"));
+    return `$${body}#${computeChecksum(body)}`;
+}
+
+// Accepts arbitrarily split or coalesced chunks of the byte stream and emits:
+// "packet" (payload: string) for each packet with a valid checksum, after decoding it and reading it as UTF-8
+// "invalidPacket" (body: string) for each packet whose checksum does not match
+// "ack" and "nack" for each '+' or '-' outside of a packet
+// "interrupt" for each 0x03 outside of a packet
+export class GdbPacketReader extends events.EventEmitter {
+    private state: ReaderState = ReaderState.Idle;
+    private body: string = "";
+    private checksum: string = "";
+
+    public push(data: Buffer | string): void {
+        const chunk: string = typeof data === "string" ? <string>data : (<Buffer>data).toString("binary");
+        for (let i: number = 0; i < chunk.length; i++) {
+            this.consume(chunk[i]);
+        }
+    }
+
+    private consume(char: string): void {
+        switch (this.state) {
+            case ReaderState.Idle:
+                if (char === "$") {
+                    this.body = "";
+                    this.state = ReaderState.Body;
+                } else if (char === "+") {
+                    this.emit("ack");
+                } else if (char === "-") {
+                    this.emit("nack");
+                } else if (char === "\x03") {
+                    this.emit("interrupt");
+                }
+                // Anything else between packets is line noise, and is discarded
+                break;
+            case ReaderState.Body:
+                if (char === "#") {
+                    this.checksum = "";
+                    this.state = ReaderState.Checksum;
+                } else if (char === "$") {
+                    // A new packet started before the previous one finished; the previous one is lost
+                    this.emit("invalidPacket", this.body);
+                    this.body = "";
+                } else {
+                    this.body += char;
+                }
+                break;
+            case ReaderState.Checksum:
+                this.checksum += char;
+                if (this.checksum.length === 2) {
+                    this.state = ReaderState.Idle;
+                    if (this.checksum.toUpperCase() === computeChecksum(this.body)) {
+                        this.emit("packet", new Buffer(decodeBody(this.body), "binary").toString("utf8"));
+                    } else {
+                        this.emit("invalidPacket", this.body);
+                    }
+                }
+                break;
+        }
+    }
+}
+
+// Sends packets one at a time, holding each until it is acknowledged and retransmitting it when rejected.
+// Once acknowledgements have been turned off with QStartNoAckMode, packets are sent straight away instead.
+export class GdbPacketWriter {
+    private output: IGdbOutput;
+    private maxRetransmits: number;
+    private pending: string = null;
+    private retransmits: number = 0;
+    private queue: string[] = [];
+    private acknowledging: boolean = true;
+
+    constructor(output: IGdbOutput, maxRetransmits: number = 3) {
+        this.output = output;
+        this.maxRetransmits = maxRetransmits;
+    }
+
+    public send(command: string): void {
+        const packet: string = makeGdbCommand(command);
+        if (!this.acknowledging) {
+            this.write(packet);
+        } else if (this.pending) {
+            this.queue.push(packet);
+        } else {
+            this.transmit(packet);
+        }
+    }
+
+    public ack(): void {
+        if (this.acknowledging) {
+            this.write("+");
+        }
+    }
+
+    public nack(): void {
+        if (this.acknowledging) {
+            this.write("-");
+        }
+    }
+
+    // Stop acknowledging packets and waiting for acknowledgements, sending anything still queued
+    public disableAcks(): void {
+        this.acknowledging = false;
+        this.pending = null;
+        this.queue.splice(0).forEach((packet: string) => this.write(packet));
+    }
+
+    public handleAck(): void {
+        this.pending = null;
+        if (this.queue.length > 0) {
+            this.transmit(this.queue.shift());
+        }
+    }
+
+    // Returns false only when the packet waiting for an acknowledgement has been rejected more often than it may be retransmitted.
+    // A stray '-' with nothing waiting is line noise, and once acknowledgements are off a '-' means nothing, so both are ignored.
+    public handleNack(): boolean {
+        if (!this.acknowledging || !this.pending) {
+            return true;
+        }
+        if (this.retransmits >= this.maxRetransmits) {
+            return false;
+        }
+
+        this.retransmits++;
+        this.write(this.pending);
+        return true;
+    }
+
+    private transmit(packet: string): void {
+        this.pending = packet;
+        this.retransmits = 0;
+        this.write(packet);
+    }
+
+    private write(data: string): void {
+        this.output.write(data, "binary");
+    }
+}
+
+// Ties a reader and writer to a socket, acknowledging every packet received and emitting
+// "packet" (payload: string) for each of them, or "error" if a packet could not be delivered.
+// Packets are recorded in the trace, if one is being recorded when the connection is made.
+export class GdbRemoteConnection extends events.EventEmitter {
+    private reader: GdbPacketReader = new GdbPacketReader();
+    private writer: GdbPacketWriter;
+    private socket: net.Socket;
+    private recorder: TraceRecorder = getTraceRecorder();
+    private traceConnection: number;
+    private acknowledging: boolean = true;
+
+    constructor(socket: net.Socket, maxRetransmits?: number) {
+        super();
+        this.socket = socket;
+        this.writer = new GdbPacketWriter(socket, maxRetransmits);
+        if (this.recorder) {
+            this.traceConnection = this.recorder.recordConnection();
+        }
+
+        this.reader.on("packet", (packet: string) => {
+            this.writer.ack();
+            this.record("received", packet);
+            this.emit("packet", packet);
+        });
+        this.reader.on("invalidPacket", () => {
+            this.writer.nack();
+        });
+        this.reader.on("ack", () => {
+            this.writer.handleAck();
+            this.emit("ack");
+        });
+        this.reader.on("nack", () => {
+            if (!this.writer.handleNack()) {
+                this.emit("error", new Error("GdbPacketRejected"));
+            }
+        });
+
+        socket.on("data", (data: Buffer) => {
+            this.reader.push(data);
+        });
+    }
+
+    public send(command: string): void {
+        this.record("sent", command);
+        this.writer.send(command);
+        if (!this.acknowledging) {
+            // Nothing will acknowledge the packet, so it counts as delivered once written
+            process.nextTick(() => this.emit("ack"));
+        }
+    }
+
+    // Stop acknowledging packets, once the debug server has replied OK to QStartNoAckMode
+    public startNoAckMode(): void {
+        this.acknowledging = false;
+        this.writer.disableAcks();
+    }
+
+    // Stop the app where it is. The interrupt is a lone ^C byte, outside of any packet, so it is not acknowledged.
+    public interrupt(): void {
+        this.record("sent", "\x03");
+        this.socket.write("\x03");
+    }
+
+    private record(direction: string, packet: string): void {
+        if (this.recorder) {
+            this.recorder.recordPacket(this.traceConnection, direction, packet);
+        }
+    }
+}
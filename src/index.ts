@@ -1,11 +1,37 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license. See LICENSE file in the project root for details.
 
+import * as logger from "./logger";
 import {IosAppRunnerHelper} from "./runApp";
 import * as simpleWrapper from "./simpleWrapper";
+import * as trace from "./trace";
+
+export {DebugProxyManager} from "./debugProxyManager";
+export {DebugSession} from "./debugSession";
+export {IDeviceLaunchError} from "./errors";
+export {ReplayServer} from "./replayServer";
+export {TraceRecorder} from "./trace";
 
 export var raw = IosAppRunnerHelper;
+export var setMessageCatalog = simpleWrapper.setMessageCatalog;
+export var setLogger = logger.setLogger;
+export var setTraceRecorder = trace.setTraceRecorder;
+export var loadTrace = trace.loadTrace;
 
 export var startApp = simpleWrapper.startApp;
 export var startAppViaDebugger = simpleWrapper.startAppViaDebugger;
-export var startDebugProxy = simpleWrapper.startDebugProxy;
\ No newline at end of file
+export var attachToApp = simpleWrapper.attachToApp;
+export var startDebugProxy = simpleWrapper.startDebugProxy;
+export var mountDeveloperImage = simpleWrapper.mountDeveloperImage;
+export var startDebugProxyManager = simpleWrapper.startDebugProxyManager;
+export var stopDebugProxy = simpleWrapper.stopDebugProxy;
+export var listDevices = simpleWrapper.listDevices;
+export var listConnectedDevices = simpleWrapper.listConnectedDevices;
+export var getDeviceInfo = simpleWrapper.getDeviceInfo;
+export var checkDevice = simpleWrapper.checkDevice;
+export var listInstalledApps = simpleWrapper.listInstalledApps;
+export var invalidateInstalledAppsCache = simpleWrapper.invalidateInstalledAppsCache;
+export var invalidateDeviceCache = simpleWrapper.invalidateDeviceCache;
+export var installApp = simpleWrapper.installApp;
+export var uninstallApp = simpleWrapper.uninstallApp;
+export var installAndLaunch = simpleWrapper.installAndLaunch;
\ No newline at end of file
@@ -0,0 +1,32 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+// Receives messages describing what the launcher is doing, e.g. to show in an output channel when a launch fails.
+// console can be used as a logger as it is.
+export interface Logger {
+    debug(message: string): void;
+    info(message: string): void;
+    warn(message: string): void;
+    error(message: string): void;
+}
+
+// Nothing is logged until a logger is set
+const silentLogger: Logger = {
+    debug: (message: string): void => null,
+    info: (message: string): void => null,
+    warn: (message: string): void => null,
+    error: (message: string): void => null
+};
+
+let currentLogger: Logger = silentLogger;
+
+// Send log messages to the given logger. Pass null to stop logging.
+export function setLogger(logger: Logger): void {
+    currentLogger = logger || silentLogger;
+}
+
+export function getLogger(): Logger {
+    return currentLogger;
+}
@@ -0,0 +1,51 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+// The details debugserver gives in reply to qProcessInfo, which looks like
+// pid:<pid>;parent-pid:<pid>;real-uid:<uid>;...;name:<hex encoded name>;cputype:<type>;cpusubtype:<subtype>;ostype:ios;endian:little;ptrsize:8;
+// Numbers are hex.
+export interface ProcessInfo {
+    pid: number;
+    parentPid: number;
+    name: string;
+    cpuType: number;
+    cpuSubtype: number;
+    osType: string;
+    endian: string;
+    pointerSize: number;
+    // Every key and value in the reply, as given
+    properties: { [key: string]: string };
+}
+
+// Returns null if the reply has no pid, e.g. because the debug server does not support qProcessInfo
+export function parseProcessInfo(reply: string): ProcessInfo {
+    const properties: { [key: string]: string } = {};
+    reply.split(";").forEach(function(pair: string): void {
+        const separator: number = pair.indexOf(":");
+        if (separator !== -1) {
+            properties[pair.substring(0, separator)] = pair.substring(separator + 1);
+        }
+    });
+
+    if (!properties["pid"]) {
+        return null;
+    }
+
+    return {
+        pid: parseHex(properties["pid"]),
+        parentPid: parseHex(properties["parent-pid"]),
+        name: properties["name"] ? new Buffer(properties["name"], "hex").toString("utf8") : null,
+        cpuType: parseHex(properties["cputype"]),
+        cpuSubtype: parseHex(properties["cpusubtype"]),
+        osType: properties["ostype"] || null,
+        endian: properties["endian"] || null,
+        pointerSize: parseHex(properties["ptrsize"]),
+        properties: properties
+    };
+}
+
+function parseHex(value: string): number {
+    return value ? parseInt(value, 16) : null;
+}
@@ -0,0 +1,95 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as events from "events";
+import * as net from "net";
+import * as Q from "q";
+
+import {GdbPacketReader, makeGdbCommand} from "./gdbRemote";
+import {Trace, TraceEvent} from "./trace";
+
+// Plays the debug server's side of a recorded trace over TCP, so that a launch recorded in the field can be repeated, e.g. in a test.
+// Each connection made to the server replays the next connection in the trace. Each packet the client sends is acknowledged
+// and checked against the next one recorded as sent, and then the packets recorded as received after it are sent back.
+// Emits:
+//   "mismatch" (expected: string, actual: string) when the client sends something other than what was recorded, and is disconnected.
+//     expected is null if the client sends more than was recorded.
+//   "finished" (connection: number) when everything recorded for a connection has been replayed
+export class ReplayServer extends events.EventEmitter {
+    public port: number = null;
+
+    private server: net.Server;
+    private connections: TraceEvent[][] = [];
+    private nextConnection: number = 0;
+
+    constructor(trace: Trace) {
+        super();
+        const byNumber: { [connection: number]: TraceEvent[] } = {};
+        trace.events.forEach((event: TraceEvent) => {
+            if (event.type === "connect") {
+                byNumber[event.connection] = [];
+                this.connections.push(byNumber[event.connection]);
+            } else if (event.type === "packet" && byNumber[event.connection]) {
+                byNumber[event.connection].push(event);
+            }
+        });
+
+        this.server = net.createServer((socket: net.Socket) => this.replay(socket));
+    }
+
+    // Listen on the given port, or a free one, resolving with the port
+    public listen(port: number = 0): Q.Promise<number> {
+        const deferred: Q.Deferred<number> = Q.defer<number>();
+        this.server.once("error", (err: Error) => deferred.reject(err));
+        this.server.listen(port, "localhost", () => {
+            this.port = this.server.address().port;
+            deferred.resolve(this.port);
+        });
+        return deferred.promise;
+    }
+
+    public close(): void {
+        this.server.close();
+    }
+
+    private replay(socket: net.Socket): void {
+        const connection: number = ++this.nextConnection;
+        const packets: TraceEvent[] = this.connections[connection - 1] || [];
+        const reader: GdbPacketReader = new GdbPacketReader();
+        let index: number = 0;
+
+        const sendReplies: () => void = () => {
+            while (index < packets.length && packets[index].direction === "received") {
+                socket.write(makeGdbCommand(packets[index++].data), "binary");
+            }
+            if (index === packets.length) {
+                this.emit("finished", connection);
+            }
+        };
+
+        const receive: (packet: string) => void = (packet: string) => {
+            const expected: TraceEvent = packets[index];
+            if (!expected || expected.data !== packet) {
+                this.emit("mismatch", expected ? expected.data : null, packet);
+                socket.destroy();
+                return;
+            }
+            index++;
+            sendReplies();
+        };
+
+        reader.on("packet", (packet: string) => {
+            socket.write("+");
+            receive(packet);
+        });
+        reader.on("interrupt", () => receive("\x03"));
+        reader.on("invalidPacket", () => socket.write("-"));
+        socket.on("data", (data: Buffer) => reader.push(data));
+        // The client may disconnect as soon as it has what it needs
+        socket.on("error", (): void => null);
+
+        sendReplies();
+    }
+}
@@ -0,0 +1,73 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as Q from "q";
+
+import {Cancellation} from "./cancellation";
+import {IDeviceLaunchError} from "./errors";
+import {getLogger} from "./logger";
+
+// How to try a launch again when it fails for a reason which may go away by itself, such as the device being locked
+export interface RetryPolicy {
+    // How many times to try again after the first attempt fails
+    retries?: number;
+    // Milliseconds to wait before the first retry, multiplied by factor for each retry after it, up to maxDelay
+    initialDelay?: number;
+    factor?: number;
+    maxDelay?: number;
+    // The error codes worth trying again for, by default DeviceLaunchTimeout, DeviceLocked and DebugProxyConnectionFailed
+    retryOn?: string[];
+    // While the device is locked, keep trying every initialDelay milliseconds for up to this many milliseconds,
+    // without counting those attempts as retries, so that someone has time to unlock it
+    waitForUnlock?: number;
+}
+
+const defaultRetryOn: string[] = ["DeviceLaunchTimeout", "DeviceLocked", "DebugProxyConnectionFailed"];
+
+// Run the operation, running it again as the policy allows while it fails with one of the errors to retry.
+// Nothing is tried again once the cancellation has been cancelled, e.g. because the overall timeout passed.
+export function retryWithBackoff<T>(operation: () => Q.Promise<T>, policy: RetryPolicy, cancellation: Cancellation): Q.Promise<T> {
+    const retries: number = policy.retries || 0;
+    const initialDelay: number = typeof policy.initialDelay === "number" ? policy.initialDelay : 1000;
+    const factor: number = policy.factor || 2;
+    const maxDelay: number = typeof policy.maxDelay === "number" ? policy.maxDelay : 10000;
+    const retryOn: string[] = policy.retryOn || defaultRetryOn;
+    let lockedSince: number = null;
+
+    function attempt(retry: number, delay: number): Q.Promise<T> {
+        return operation().catch(function(err: any): Q.Promise<T> {
+            if (cancellation.cancelled || !(err instanceof IDeviceLaunchError) || retryOn.indexOf(err.code) === -1) {
+                throw err;
+            }
+
+            if (err.code === "DeviceLocked" && policy.waitForUnlock) {
+                lockedSince = lockedSince === null ? Date.now() : lockedSince;
+                if (Date.now() - lockedSince < policy.waitForUnlock) {
+                    getLogger().info("The device is locked, waiting for it to be unlocked");
+                    return sleep(initialDelay, cancellation).then(() => attempt(retry, delay));
+                }
+            }
+            if (retry >= retries) {
+                throw err;
+            }
+
+            getLogger().warn(`Launch attempt failed with ${err.code}, trying again in ${delay}ms`);
+            return sleep(delay, cancellation).then(() => attempt(retry + 1, Math.min(delay * factor, maxDelay)));
+        });
+    }
+
+    return attempt(0, Math.min(initialDelay, maxDelay));
+}
+
+// Resolve after the given time, or reject with the reason if the operation is cancelled first
+function sleep(milliseconds: number, cancellation: Cancellation): Q.Promise<void> {
+    const deferred: Q.Deferred<void> = Q.defer<void>();
+    const timer: NodeJS.Timer = setTimeout(() => deferred.resolve(null), milliseconds);
+    const stopWatching: () => void = cancellation.onCancel(function(reason: string): void {
+        clearTimeout(timer);
+        deferred.reject(new IDeviceLaunchError(reason));
+    });
+    return deferred.promise.finally(stopWatching);
+}
@@ -4,277 +4,1095 @@
 "use strict";
 
 import * as child_process from "child_process";
-import * as fs from "fs";
 import * as net from "net";
 import * as Q from "q";
+import * as stream from "stream";
+import {StringDecoder, NodeStringDecoder} from "string_decoder";
 
 import * as pl from "plist";
 
-import {SharedState} from "./SharedState";
+import {Cancellation, CancellationOptions} from "./cancellation";
+import {ConnectedDevice, ConnectionOptions, ConnectionType, connectionArgs, listDevicesArgs, noDeviceError, parseDeviceList} from "./connection";
+import {DebugProxyManager, DebugProxyOptions} from "./debugProxyManager";
+import {DebugSession} from "./debugSession";
+import {DiagnosticsCollector, DiagnosticsOptions} from "./diagnostics";
+import {DiskImage, DiskImageOptions, findDiskImage, isDiskImageMounted} from "./diskImage";
+import {IDeviceLaunchError} from "./errors";
+import {GdbRemoteConnection} from "./gdbRemote";
+import {getLogger} from "./logger";
+import {ProcessInfo, parseProcessInfo} from "./processInfo";
+import {RetryPolicy, retryWithBackoff} from "./retry";
+import {SharedState} from "./sharedState";
+import {StopInfo, collectBacktrace, parseStopReply} from "./stopReply";
+import {StepTiming, timeStep} from "./timings";
+import {spawnTraced} from "./trace";
 
-const promiseExec = Q.denodeify(child_process.exec);
+export interface DeviceInfo {
+    udid: string;
+    name: string;
+    model: string;
+    productVersion: string;
+    buildVersion: string;
+    cpuArchitecture: string;
+    // Whether a passcode is set, not whether the device is locked right now
+    passwordProtected: boolean;
+    // Every property reported by ideviceinfo, for anything not covered above
+    properties: { [key: string]: any };
+}
+
+// cancellationToken and timeout cover the whole launch, including finding the app's path for startApp
+export interface LaunchOptions extends CancellationOptions, ConnectionOptions {
+    // Arguments passed to the app after its own path
+    args?: string[];
+    // Environment variables set for the app
+    env?: { [key: string]: string };
+    // The app's console output is decoded and written here as text, e.g. to process.stdout or a PassThrough to read from.
+    // The stream is ended when the debugging session ends, unless it is process.stdout or process.stderr.
+    // The session's "output" event carries the same text, from when the launch resolves.
+    output?: NodeJS.WritableStream;
+    // If the app stops in the debugger, read its stack to give a best-effort backtrace in the stop info before disconnecting
+    collectBacktrace?: boolean;
+    // Used by startApp: reuse the app's path from the last listing of installed apps on the device, rather than listing them again
+    cacheAppPath?: boolean;
+    // Used by startApp: check that the device is paired, and not locked since it restarted, before launching. See IosAppRunnerHelper.checkDevice
+    checkDevice?: boolean;
+    // Used by startApp: try the launch again if it fails, e.g. because the device was locked
+    retry?: RetryPolicy;
+    // Used by startApp: collect the device's log of the app, and its crash reports if it crashes, into a directory
+    diagnostics?: DiagnosticsOptions;
+    // Ask the debug server to stop acknowledging packets, saving a round trip per packet, if it supports QStartNoAckMode
+    noAckMode?: boolean;
+}
+
+export type SessionEndKind = "exited" | "signaled" | "stopped" | "detached" | "disconnected";
+
+export interface SessionEndInfo {
+    // "exited" when the app exited by itself, "signaled" when it was terminated by a signal,
+    // "stopped" when it stopped in the debugger, e.g. because it crashed, "detached" when DebugSession.detach() left it running,
+    // and "disconnected" when the connection to the debug server was lost, e.g. because the device was unplugged
+    kind: SessionEndKind;
+    // The exit code of the app, if it exited
+    exitCode: number;
+    // The signal which terminated or stopped the app, if any, and its symbolic name such as "SIGABRT"
+    signal: number;
+    signalName: string;
+    // Milliseconds from the app being started until the session ended
+    duration: number;
+    // The details of where and why the app stopped, if it stopped in the debugger
+    stopInfo: StopInfo;
+}
+
+// isCrash is kept for compatibility with callbacks written before SessionEndInfo was available.
+// The session which ended is passed too, since the app may end before the launch has resolved with it.
+export type SessionEndCallback = (isCrash: boolean, info?: SessionEndInfo, session?: DebugSession) => void;
+
+export interface InstallProgress {
+    // The step ideviceinstaller reports, e.g. "CopyingApplication" or "Complete"
+    status: string;
+    // Percentage complete, if reported
+    percent: number;
+}
+
+export interface InstallOptions extends ConnectionOptions {
+    udid?: string;
+    progressCallback?: (progress: InstallProgress) => void;
+}
+
+export interface AppInfo {
+    bundleId: string;
+    name: string;
+    version: string;
+    buildVersion: string;
+    // The path of the app bundle on the device
+    path: string;
+    isSystemApp: boolean;
+}
+
+// The app to attach to: a process id, a process name, or the bundle id of an installed app
+export interface AttachTarget {
+    pid?: number;
+    processName?: string;
+    bundleId?: string;
+    // The device to look up the bundle id on, if not the first device found
+    udid?: string;
+    // Wait for a process with the name to start, rather than attaching to one which is already running
+    waitForLaunch?: boolean;
+}
+
+export interface MountOptions extends CancellationOptions, DiskImageOptions, ConnectionOptions {
+}
+
+export interface CheckDeviceOptions extends CancellationOptions, ConnectionOptions {
+}
+
+export interface ListInstalledAppsOptions extends CancellationOptions, ConnectionOptions {
+    udid?: string;
+    // By default only apps installed by the user are listed
+    includeSystemApps?: boolean;
+}
+
+// The paths of installed apps by bundle id, for each device by UDID, or "" for the first device found
+const installedAppPaths: { [udid: string]: { [packageId: string]: string } } = {};
+
+// What startDebugProxyManager has learned about a device, so that starting a proxy again can skip asking the device
+interface IDeviceState {
+    // The developer disk image found for the device, and the search paths it was found with
+    diskImage: DiskImage;
+    diskImageKey: string;
+    // Whether a developer disk image is known to be mounted
+    imageMounted: boolean;
+}
+
+// The state of each device by UDID
+const deviceStates: { [udid: string]: IDeviceState } = {};
+
+// Without a UDID, the first device found may be a different device each time, so nothing is remembered about it
+function getDeviceState(udid: string): IDeviceState {
+    if (!udid) {
+        return { diskImage: null, diskImageKey: null, imageMounted: false };
+    }
+    if (!deviceStates[udid]) {
+        deviceStates[udid] = { diskImage: null, diskImageKey: null, imageMounted: false };
+    }
+    return deviceStates[udid];
+}
 
 export class IosAppRunnerHelper {
-    public static startDebugProxy(proxyPort: number): Q.Promise<child_process.ChildProcess> {
-        if (SharedState.nativeDebuggerProxyInstance) {
-            SharedState.nativeDebuggerProxyInstance.kill("SIGHUP"); // idevicedebugserver does not exit from SIGTERM
-            SharedState.nativeDebuggerProxyInstance = null;
-        }
+    // List the UDIDs of all attached devices, only those plugged in unless options.connection says otherwise
+    public static listDevices(options: ConnectionOptions = {}): Q.Promise<string[]> {
+        return IosAppRunnerHelper.listConnectedDevices(options).then(function(devices: ConnectedDevice[]): string[] {
+            const udids: string[] = devices.map((device: ConnectedDevice) => device.udid);
+            return udids.filter((udid: string, index: number) => udids.indexOf(udid) === index);
+        });
+    }
 
-        return IosAppRunnerHelper.mountDeveloperImage().then(function(): Q.Promise<child_process.ChildProcess> {
-            const deferred = Q.defer<child_process.ChildProcess>();
-            SharedState.nativeDebuggerProxyInstance = child_process.spawn("idevicedebugserverproxy", [proxyPort.toString()]);
-            SharedState.nativeDebuggerProxyInstance.once("error", function(err: any): void {
-                deferred.reject(err);
-            });
-            SharedState.nativeDebuggerProxyInstance.once("exit", function (): void {
-                deferred.reject(new Error("IDeviceDebugServerProxyExitedEarly"));
-            })
-            // Allow 200ms for the spawn to error out, ~125ms isn't uncommon for some failures
-            Q.delay(200).then(() => {
-                deferred.resolve(SharedState.nativeDebuggerProxyInstance)
-            });
+    // List the attached devices with how each is connected. A device which is both plugged in and on the network is listed twice.
+    public static listConnectedDevices(options: ConnectionOptions = {}): Q.Promise<ConnectedDevice[]> {
+        return IosAppRunnerHelper.runTool("idevice_id", listDevicesArgs(options.connection))
+            .catch(IosAppRunnerHelper.toolError("FailedListDevices", "devices", "IDeviceIdNotFound"))
+            .then((stdout: string) => parseDeviceList(stdout, options.connection));
+    }
 
-            return deferred.promise;
+    public static getDeviceInfo(udid: string, options: ConnectionOptions = {}): Q.Promise<DeviceInfo> {
+        const cancellation: Cancellation = new Cancellation();
+        return IosAppRunnerHelper.resolveConnection(udid, options.connection, cancellation).then(function(connection: ConnectionType): Q.Promise<DeviceInfo> {
+            return IosAppRunnerHelper.readDeviceInfo(udid, connection, cancellation);
         });
     }
 
-    // Attempt to start the app on the device, using the debug server proxy on a given port.
-    // Returns a socket speaking remote gdb protocol with the debug server proxy.
-    public static startApp(packageId: string, proxyPort: number, appLaunchStepTimeout: number, sessionEndCallback?: (isCrash: boolean) => void): Q.Promise<net.Socket> {
-        // When a user has many apps installed on their device, the response from ideviceinstaller may be large (500k or more)
-        // This exceeds the maximum stdout size that exec allows, so we redirect to a temp file.
-        return promiseExec("ideviceinstaller -l -o xml > /tmp/$$.ideviceinstaller && echo /tmp/$$.ideviceinstaller")
-            .catch(function(err: any): any {
-                if (err.code === "ENOENT") {
-                    throw new Error("IDeviceInstallerNotFound");
-                }
+    // Check that the device is ready to launch apps: that this computer is paired with it, and that it has been unlocked since it restarted.
+    // Rejects with DeviceNotPaired or DeviceLocked if not, and resolves with the device's info otherwise.
+    // This is not a full lock check: the device only reports being locked while it cannot be read from at all, i.e. after restarting
+    // until it is first unlocked. A device which has locked its screen since then passes, and its launches fail with DeviceLocked instead.
+    public static checkDevice(udid?: string, options: CheckDeviceOptions = {}): Q.Promise<DeviceInfo> {
+        const cancellation: Cancellation = new Cancellation(options);
+        return IosAppRunnerHelper.resolveConnection(udid, options.connection, cancellation)
+            .then((connection: ConnectionType) => IosAppRunnerHelper.checkConnectedDevice(udid, connection, cancellation))
+            .finally(() => cancellation.dispose());
+    }
+
+    private static checkConnectedDevice(udid: string, connection: ConnectionType, cancellation: Cancellation): Q.Promise<DeviceInfo> {
+        return IosAppRunnerHelper.validatePairing(udid, connection, cancellation)
+            .then(() => IosAppRunnerHelper.readDeviceInfo(udid, connection, cancellation));
+    }
+
+    private static validatePairing(udid: string, connection: ConnectionType, cancellation: Cancellation): Q.Promise<void> {
+        return Q.fcall(IosAppRunnerHelper.deviceArgs, udid, connection).then(function(deviceArgs: string[]): Q.Promise<string> {
+            return IosAppRunnerHelper.runTool("idevicepair", deviceArgs.concat(["validate"]), cancellation);
+        }).then(function(): void {
+            return;
+        }, function(err: any): void {
+            if (err instanceof IDeviceLaunchError) {
                 throw err;
-            }).spread<string>(function(stdout: string, stderr: string): string {
-                // First find the path of the app on the device
-                const filename: string = stdout.trim();
-                if (!/^\/tmp\/[0-9]+\.ideviceinstaller$/.test(filename)) {
-                    throw new Error("WrongInstalledAppsFile");
+            }
+            const output: string = (err.stdout || "") + (err.stderr || "");
+            let code: string = "DeviceNotPaired";
+            if (err.code === "ENOENT") {
+                code = "IDevicePairNotFound";
+            } else if (output.indexOf("No device found") !== -1) {
+                code = noDeviceError(connection);
+            } else if (/passcode/i.test(output)) {
+                code = "DeviceLocked";
+            }
+            throw new IDeviceLaunchError(code, "pair", err);
+        });
+    }
+
+    private static readDeviceInfo(udid: string, connection: ConnectionType, cancellation: Cancellation): Q.Promise<DeviceInfo> {
+        return Q.fcall(IosAppRunnerHelper.deviceArgs, udid, connection)
+            .then(function(deviceArgs: string[]): Q.Promise<any> {
+                // -x reports every property as an XML plist, rather than the ambiguous "Key: Value" text format
+                return IosAppRunnerHelper.runTool("ideviceinfo", deviceArgs.concat(["-x"]), cancellation);
+            }).catch(function(err: any): any {
+                // lockdownd refuses every request with error -17 (password protected) until the device is unlocked
+                const output: string = (err.stdout || "") + (err.stderr || "");
+                if (/error code -17\b|password protected/i.test(output)) {
+                    throw new IDeviceLaunchError("DeviceLocked", "info", err);
                 }
+                return IosAppRunnerHelper.toolError("FailedGetDeviceInfo", "info")(err);
+            }).then(function(stdout: string): DeviceInfo {
+                const properties: { [key: string]: any } = pl.parse(stdout);
+                return {
+                    udid: properties["UniqueDeviceID"] || udid,
+                    name: properties["DeviceName"],
+                    model: properties["ProductType"],
+                    productVersion: properties["ProductVersion"],
+                    buildVersion: properties["BuildVersion"],
+                    cpuArchitecture: properties["CPUArchitecture"],
+                    passwordProtected: !!properties["PasswordProtected"],
+                    properties: properties
+                };
+            });
+    }
+
+    // Start the debug server proxy for the device with the given UDID, or the first device found if no UDID is given.
+    // Only a proxy previously started for the same device is stopped, and only if it cannot be reused as it is.
+    public static startDebugProxy(proxyPort: number, udid?: string, options: MountOptions = {}): Q.Promise<child_process.ChildProcess> {
+        return IosAppRunnerHelper.startDebugProxyManager({
+            port: proxyPort,
+            udid: udid,
+            cancellationToken: options.cancellationToken,
+            timeout: options.timeout,
+            connection: options.connection,
+            diskImagePath: options.diskImagePath,
+            diskImageSignaturePath: options.diskImageSignaturePath,
+            diskImageSearchPaths: options.diskImageSearchPaths
+        }).then((manager: DebugProxyManager) => manager.process);
+    }
+
+    // Mount the developer disk image matching the device's iOS version, which debugserver is part of.
+    // startDebugProxy does this too, so this is only needed to prepare a device ahead of time.
+    // Nothing is mounted if the device already has a developer disk image mounted.
+    public static mountDeveloperImage(udid?: string, options: MountOptions = {}): Q.Promise<any> {
+        const cancellation: Cancellation = new Cancellation(options);
+        return IosAppRunnerHelper.resolveConnection(udid, options.connection, cancellation)
+            .then((connection: ConnectionType) => IosAppRunnerHelper.mountImage(udid, connection, options, false, cancellation))
+            .finally(() => cancellation.dispose());
+    }
+
+    // Mount the developer disk image and start a debug server proxy for the device. Resolves once the proxy accepts connections on manager.port.
+    // A proxy this package started for the same device, port and connection is reused as it is while it still reaches debugserver;
+    // any other proxy it started for the device is stopped first. manager.timings tells how long each step took.
+    public static startDebugProxyManager(options: DebugProxyOptions = {}): Q.Promise<DebugProxyManager> {
+        const cancellation: Cancellation = new Cancellation(options);
+        const timings: StepTiming[] = [];
+        let connection: ConnectionType;
+        return timeStep(timings, "connection", () => IosAppRunnerHelper.resolveConnection(options.udid, options.connection, cancellation))
+            .then(function(resolved: ConnectionType): Q.Promise<DebugProxyManager> {
+                connection = resolved;
+                return timeStep(timings, "checkProxy", () => IosAppRunnerHelper.getReusableProxy(options, connection));
+            }).then(function(existing: DebugProxyManager): Q.Promise<DebugProxyManager> {
+                if (existing) {
+                    getLogger().info(`Reusing the debug server proxy on port ${existing.port}`);
+                    existing.timings = timings;
+                    return Q(existing);
+                }
+
+                return IosAppRunnerHelper.stopDebugProxy(options.udid)
+                    .then(() => timeStep(timings, "mount", () => IosAppRunnerHelper.mountImage(options.udid, connection, options, true, cancellation)))
+                    .then(function(): Q.Promise<DebugProxyManager> {
+                        const manager: DebugProxyManager = new DebugProxyManager(options);
+                        manager.connection = connection;
+                        manager.timings = timings;
+                        SharedState.setNativeDebuggerProxyInstance(options.udid, manager);
+                        return timeStep(timings, "proxy", () => manager.start(cancellation)).then(() => manager, function(err: any): any {
+                            if (SharedState.getNativeDebuggerProxyInstance(options.udid) === manager) {
+                                SharedState.setNativeDebuggerProxyInstance(options.udid, null);
+                            }
+                            // The device may have restarted since the image was last mounted
+                            getDeviceState(options.udid).imageMounted = false;
+                            throw err;
+                        });
+                    });
+            }).finally(() => cancellation.dispose());
+    }
+
+    // Forget what is known about one device, or about all devices if no UDID is given: its developer disk image and whether it is mounted.
+    // startApp does this when a launch fails, since restarting the device unmounts the image.
+    public static invalidateDeviceCache(udid?: string): void {
+        if (udid) {
+            delete deviceStates[udid];
+        } else {
+            Object.keys(deviceStates).forEach((key: string) => delete deviceStates[key]);
+        }
+    }
+
+    // Stop the debug server proxy this package started for the device, if any
+    public static stopDebugProxy(udid?: string): Q.Promise<void> {
+        const existingProxy: DebugProxyManager = SharedState.getNativeDebuggerProxyInstance(udid);
+        if (!existingProxy) {
+            return Q<void>(null);
+        }
+
+        SharedState.setNativeDebuggerProxyInstance(udid, null);
+        if (typeof existingProxy.stop !== "function") {
+            // Older versions of this package keep the proxy's ChildProcess here instead
+            existingProxy.kill("SIGHUP"); // idevicedebugserver does not exit from SIGTERM
+            return Q<void>(null);
+        }
+        return existingProxy.stop();
+    }
+
+    // Attempt to start the app on the device, using the debug server proxy on a given port.
+    // Returns a socket speaking remote gdb protocol with the debug server proxy.
+    // If a UDID is given, the app is looked up on that device rather than the first device found.
+    // With launchOptions.retry, the whole launch is tried again for the errors the policy lists, within the overall timeout.
+    // With launchOptions.diagnostics, the session's diagnostics are collected, and session.diagnostics resolves once the session has ended.
+    // session.timings tells how long each step of the launch took.
+    public static startApp(packageId: string, proxyPort: number, appLaunchStepTimeout: number, sessionEndCallback?: SessionEndCallback, udid?: string, launchOptions?: LaunchOptions): Q.Promise<DebugSession> {
+        launchOptions = launchOptions || {};
+        const useCache: boolean = !!launchOptions.cacheAppPath;
+        const cancellation: Cancellation = new Cancellation(launchOptions);
+        let collector: DiagnosticsCollector = null;
+        let appPath: string = null;
+        let connection: ConnectionType;
+        const timings: StepTiming[] = [];
 
-                const list: any[] = pl.parse(fs.readFileSync(filename, 'utf8'));
-                fs.unlink(filename);
-                for (let i: number = 0; i < list.length; ++i) {
-                    if (list[i].CFBundleIdentifier === packageId) {
-                        return list[i].Path;
+        function sessionDetails(err: IDeviceLaunchError, endInfo: SessionEndInfo, session: DebugSession): { [key: string]: any } {
+            return {
+                bundleId: packageId,
+                path: appPath,
+                udid: udid || null,
+                pid: session && session.pid,
+                processInfo: session && session.processInfo,
+                endInfo: endInfo,
+                error: err ? { code: err.code, step: err.step, message: err.message } : null
+            };
+        }
+
+        function onSessionEnd(isCrash: boolean, info: SessionEndInfo, session: DebugSession): void {
+            collector.finish(sessionDetails(null, info, session), isCrash || info.kind === "signaled" || info.kind === "stopped");
+            if (sessionEndCallback) {
+                sessionEndCallback(isCrash, info, session);
+            }
+        }
+
+        function attempt(): Q.Promise<DebugSession> {
+            // Only the steps of the attempt which succeeds are reported
+            const attemptTimings: StepTiming[] = timings.slice();
+            let deviceChecked: Q.Promise<any> = Q(null);
+            if (launchOptions.checkDevice) {
+                deviceChecked = timeStep(attemptTimings, "checkDevice", () => IosAppRunnerHelper.checkConnectedDevice(udid, connection, cancellation));
+            }
+            return deviceChecked.then(() => timeStep(attemptTimings, "appPath", () => IosAppRunnerHelper.getAppPath(packageId, udid, connection, useCache, cancellation)))
+                .then(function(path: string): Q.Promise<DebugSession> {
+                    appPath = path;
+                    if (launchOptions.diagnostics && !collector) {
+                        collector = new DiagnosticsCollector(launchOptions.diagnostics, IosAppRunnerHelper.getProcessName(path), IosAppRunnerHelper.deviceArgs(udid, connection));
+                        collector.start();
                     }
+                    return IosAppRunnerHelper.launchViaDebugger(proxyPort, path, appLaunchStepTimeout, collector ? onSessionEnd : sessionEndCallback, launchOptions, cancellation)
+                        .then(function(launched: DebugSession): DebugSession {
+                            launched.timings = attemptTimings.concat(launched.timings);
+                            return launched;
+                        }, function(err: any): any {
+                            // The app may have been reinstalled at a different path since it was cached,
+                            // and the device may have restarted, unmounting the disk image, since it was mounted
+                            IosAppRunnerHelper.invalidateInstalledAppsCache(udid);
+                            IosAppRunnerHelper.invalidateDeviceCache(udid);
+                            throw err;
+                        });
+                });
+        }
+
+        return timeStep(timings, "connection", () => IosAppRunnerHelper.resolveConnection(udid, launchOptions.connection, cancellation)).then(function(resolved: ConnectionType): Q.Promise<DebugSession> {
+            connection = resolved;
+            return retryWithBackoff(attempt, launchOptions.retry || {}, cancellation);
+        }).then(function(session: DebugSession): DebugSession {
+            session.diagnostics = collector ? collector.result : null;
+            return session;
+        }, function(err: any): any {
+            if (collector) {
+                collector.finish(sessionDetails(err, null, null), false);
+            }
+            throw err;
+        }).finally(() => cancellation.dispose());
+    }
+
+    // List the apps installed on the device. Every listing also refreshes the cache of app paths used by startApp.
+    public static listInstalledApps(options: ListInstalledAppsOptions = {}): Q.Promise<AppInfo[]> {
+        const cancellation: Cancellation = new Cancellation(options);
+        return IosAppRunnerHelper.resolveConnection(options.udid, options.connection, cancellation).then(function(connection: ConnectionType): Q.Promise<AppInfo[]> {
+            return IosAppRunnerHelper.listApps({ udid: options.udid, includeSystemApps: options.includeSystemApps, connection: connection }, cancellation);
+        }).finally(() => cancellation.dispose());
+    }
+
+    // Forget the cached app paths for one device, or for all devices if no UDID is given,
+    // since "the first device" could be any of them
+    public static invalidateInstalledAppsCache(udid?: string): void {
+        if (udid) {
+            delete installedAppPaths[udid];
+        } else {
+            Object.keys(installedAppPaths).forEach((key: string) => delete installedAppPaths[key]);
+        }
+    }
+
+    // options.connection must already have been resolved from "any"
+    private static listApps(options: ListInstalledAppsOptions, cancellation: Cancellation): Q.Promise<AppInfo[]> {
+        return Q.fcall(IosAppRunnerHelper.deviceArgs, options.udid, options.connection)
+            .then(function(deviceArgs: string[]): Q.Promise<string> {
+                // When a user has many apps installed on their device, the response from ideviceinstaller may be large (500k or more)
+                // This exceeds the maximum stdout size that exec allows, so we collect the output of the process ourselves.
+                const listType: string = options.includeSystemApps ? "list_all" : "list_user";
+                return IosAppRunnerHelper.runTool("ideviceinstaller", deviceArgs.concat(["-l", "-o", listType, "-o", "xml"]), cancellation);
+            }).catch(IosAppRunnerHelper.toolError("WrongInstalledAppsFile", "list", "IDeviceInstallerNotFound"))
+            .then(function(stdout: string): AppInfo[] {
+                let list: any[];
+                try {
+                    list = pl.parse(stdout);
+                } catch (e) {
+                    throw new IDeviceLaunchError("WrongInstalledAppsFile", "list", e);
+                }
+                if (!Array.isArray(list)) {
+                    throw new IDeviceLaunchError("WrongInstalledAppsFile", "list");
                 }
 
-                throw new Error("PackageNotInstalled");
-            }).then(function(path: string): Q.Promise<net.Socket> {
-                return IosAppRunnerHelper.startAppViaDebugger(proxyPort, path, appLaunchStepTimeout, sessionEndCallback);
+                const apps: AppInfo[] = list.map(function(app: any): AppInfo {
+                    return {
+                        bundleId: app.CFBundleIdentifier,
+                        name: app.CFBundleDisplayName || app.CFBundleName,
+                        version: app.CFBundleShortVersionString,
+                        buildVersion: app.CFBundleVersion,
+                        path: app.Path,
+                        isSystemApp: app.ApplicationType === "System"
+                    };
+                });
+
+                const paths: { [packageId: string]: string } = {};
+                apps.forEach((app: AppInfo) => paths[app.bundleId] = app.path);
+                installedAppPaths[options.udid || ""] = paths;
+                return apps;
             });
     }
 
-    public static startAppViaDebugger(portNumber: number, packagePath: string, appLaunchStepTimeout: number, sessionEndCallback?: (isCrash: boolean) => void): Q.Promise<net.Socket> {
-        const encodedPath: string = IosAppRunnerHelper.encodePath(packagePath);
+    private static getAppPath(packageId: string, udid: string, connection: ConnectionType, useCache: boolean, cancellation: Cancellation): Q.Promise<string> {
+        const cachedPaths: { [packageId: string]: string } = installedAppPaths[udid || ""];
+        if (useCache && cachedPaths && cachedPaths[packageId]) {
+            return Q(cachedPaths[packageId]);
+        }
+
+        return IosAppRunnerHelper.listApps({ udid: udid, connection: connection }, cancellation).then(function(apps: AppInfo[]): string {
+            for (let i: number = 0; i < apps.length; ++i) {
+                if (apps[i].bundleId === packageId) {
+                    return apps[i].path;
+                }
+            }
+
+            throw new IDeviceLaunchError("PackageNotInstalled", "list");
+        });
+    }
+
+    public static startAppViaDebugger(portNumber: number, packagePath: string, appLaunchStepTimeout: number, sessionEndCallback?: SessionEndCallback, launchOptions: LaunchOptions = {}): Q.Promise<DebugSession> {
+        const cancellation: Cancellation = new Cancellation(launchOptions);
+        return IosAppRunnerHelper.launchViaDebugger(portNumber, packagePath, appLaunchStepTimeout, sessionEndCallback, launchOptions, cancellation)
+            .finally(() => cancellation.dispose());
+    }
+
+    // Attach to the app described by the target, as it runs on the device, using the debug server proxy on a given port.
+    // The app's process name is found from its path on the device if only its bundle id is given.
+    // Resolves with a session which reports the app exiting or crashing, as for a launched app.
+    public static attachToApp(target: AttachTarget, proxyPort: number, appLaunchStepTimeout: number, sessionEndCallback?: SessionEndCallback, launchOptions?: LaunchOptions): Q.Promise<DebugSession> {
+        const useCache: boolean = !!(launchOptions && launchOptions.cacheAppPath);
+        const cancellation: Cancellation = new Cancellation(launchOptions);
+        let processName: Q.Promise<string> = Q(target.processName || null);
+        if (typeof target.pid !== "number" && !target.processName && target.bundleId) {
+            processName = IosAppRunnerHelper.resolveConnection(target.udid, launchOptions && launchOptions.connection, cancellation).then(function(connection: ConnectionType): Q.Promise<string> {
+                return IosAppRunnerHelper.getAppPath(target.bundleId, target.udid, connection, useCache, cancellation);
+            }).then(IosAppRunnerHelper.getProcessName);
+        }
+
+        return processName.then(function(name: string): Q.Promise<DebugSession> {
+            // Process names are sent hex encoded, in the same way as paths
+            let attachCommand: string;
+            if (typeof target.pid === "number") {
+                attachCommand = "vAttach;" + target.pid.toString(16);
+            } else if (name) {
+                attachCommand = (target.waitForLaunch ? "vAttachWait;" : "vAttachName;") + IosAppRunnerHelper.encodePath(name);
+            } else {
+                throw new IDeviceLaunchError("InvalidAttachTarget", "vAttach");
+            }
+
+            return IosAppRunnerHelper.launchViaDebugger(proxyPort, null, appLaunchStepTimeout, sessionEndCallback, launchOptions, cancellation, attachCommand);
+        }).finally(() => cancellation.dispose());
+    }
+
+    // If attachCommand is given, attach to the process it names instead of launching the app at packagePath
+    private static launchViaDebugger(portNumber: number, packagePath: string, appLaunchStepTimeout: number, sessionEndCallback: SessionEndCallback, launchOptions: LaunchOptions, cancellation: Cancellation, attachCommand: string = null): Q.Promise<DebugSession> {
+        launchOptions = launchOptions || {};
+        const args: string[] = [packagePath].concat(launchOptions.args || []);
+        const env: { [key: string]: string } = launchOptions.env || {};
 
-        // We need to send 3 messages to the proxy, waiting for responses between each message:
-        // A(length of encoded path),0,(encoded path)
+        // We need to send 5 messages to the proxy, waiting for responses between each message:
+        // A(length of encoded path),0,(encoded path)[,(length of encoded argument),(argument index),(encoded argument)]...
+        // qLaunchSuccess
         // Hc0
+        // qProcessInfo
         // c
-        // We expect a '+' for each message sent, followed by a $OK#9a to indicate that everything has worked.
+        // Any environment variables are set with a QEnvironment message each before these.
+        // We expect a '+' for each message sent, followed by a $OK#9a to indicate that everything has worked,
+        // or for the two queries, the answer to them.
         // For more info, see http://www.opensource.apple.com/source/lldb/lldb-167.2/docs/lldb-gdb-remote.txt
         const socket: net.Socket = new net.Socket();
-        let initState: number = 0;
-        let endStatus: number = null;
-        let endSignal: number = null;
-
-        const deferred1: Q.Deferred<net.Socket> = Q.defer<net.Socket>();
-        const deferred2: Q.Deferred<net.Socket> = Q.defer<net.Socket>();
-        const deferred3: Q.Deferred<net.Socket> = Q.defer<net.Socket>();
-
-        socket.on("data", function(data: any): void {
-            data = data.toString();
-            while (data[0] === "+") { data = data.substring(1); }
-            // Acknowledge any packets sent our way
-            if (data[0] === "$") {
-                socket.write("+");
-                if (data[1] === "W") {
-                    // The app process has exited, with hex status given by data[2-3] 
-                    const status: number = parseInt(data.substring(2, 4), 16);
-                    endStatus = status;
-                    socket.end();
-                    if (sessionEndCallback) {
-                        sessionEndCallback(false);
-                    }
-                } else if (data[1] === "X") {
-                    // The app process exited because of signal given by data[2-3]
-                    const signal: number = parseInt(data.substring(2, 4), 16);
-                    endSignal = signal;
-                    socket.end();
-                    if (sessionEndCallback) {
-                        sessionEndCallback(false);
-                    }
-                } else if (data[1] === "T") {
-                    // The debugger has stopped the process for some reason.
-                    // The message includes register contents and stop signal and other data,
-                    // but for our purposes it is opaque
-                    socket.end();
-                    if (sessionEndCallback) {
-                        sessionEndCallback(true);
-                    }
-                } else if (data.substring(1, 3) === "OK") {
-                    // last command was received OK;
-                    if (initState === 1) {
-                        deferred1.resolve(socket);
-                    } else if (initState === 2) {
-                        deferred2.resolve(socket);
-                    } else if (initState === 3) {
-                        // iOS 10 seems to have changed how output is reported over the debugging channel
-                        // We no longer get the "O<message>#<hash>" message that we expected in the past,
-                        // although the app launches correctly. Instead we assume that if we get the OK
-                        // message that the app is probably launched.
-                        deferred3.resolve(socket);
-                    }
-                } else if (data[1] === "O") {
-                    // STDOUT was written to, and the rest of the input until reaching a '#' is a hex-encoded string of that output
-                    if (initState === 3) {
-                        deferred3.resolve(socket);
-                        initState++;
+        const connection: GdbRemoteConnection = new GdbRemoteConnection(socket);
+        const session: DebugSession = new DebugSession(socket, connection, appLaunchStepTimeout, sessionEndCallback);
+        let currentStep: string = "connect";
+        let pendingStep: Q.Deferred<string> = null;
+        let pendingQuery: Q.Deferred<string> = null;
+        let launched: boolean = false;
+        let collectingBacktrace: boolean = false;
+
+        // Output may be split at any byte, including in the middle of a multi-byte character
+        const outputDecoder: NodeStringDecoder = new StringDecoder("utf8");
+        const appOutput: stream.PassThrough = launchOptions.output ? new stream.PassThrough() : null;
+        if (appOutput) {
+            appOutput.setEncoding("utf8");
+            appOutput.pipe(launchOptions.output);
+        }
+
+        // Send a message, resolving with the debug server's reply to it
+        function sendStep(step: string, command: string, timeout: number = appLaunchStepTimeout): Q.Promise<string> {
+            if (cancellation.cancelled) {
+                return Q.reject<string>(new IDeviceLaunchError(cancellation.reason, step));
+            }
+
+            const deferred: Q.Deferred<string> = Q.defer<string>();
+            currentStep = step;
+            pendingStep = deferred;
+            getLogger().debug(`Sending ${step} to the debug server`);
+            connection.send(command);
+            const timer: NodeJS.Timer = timeout ? setTimeout(function(): void {
+                deferred.reject(new IDeviceLaunchError("DeviceLaunchTimeout", step));
+            }, timeout) : null;
+            return timeStep(session.timings, step, () => deferred.promise).finally(() => clearTimeout(timer));
+        }
+
+        function rejectStep(code: string, cause: any = null): void {
+            if (pendingStep) {
+                getLogger().error(`Launch failed at step ${currentStep} with ${code}${cause ? ": " + (cause.message || cause) : ""}`);
+                pendingStep.reject(new IDeviceLaunchError(code, currentStep, cause));
+            }
+        }
+
+        // An empty reply means the debug server does not support qProcessInfo, and the session is left without a pid
+        function setProcessInfo(reply: string): void {
+            const processInfo: ProcessInfo = parseProcessInfo(reply);
+            if (processInfo) {
+                session.processInfo = processInfo;
+                session.pid = processInfo.pid;
+            }
+        }
+
+        // Send a message once the app is running, resolving with the debug server's reply
+        function query(command: string): Q.Promise<string> {
+            const deferred: Q.Deferred<string> = Q.defer<string>();
+            pendingQuery = deferred;
+            connection.send(command);
+            const timer: NodeJS.Timer = setTimeout(function(): void {
+                deferred.reject(new IDeviceLaunchError("DebuggerQueryTimeout", command));
+            }, appLaunchStepTimeout);
+            return deferred.promise.finally(() => clearTimeout(timer));
+        }
+
+        // The connection acknowledges each packet for us, and only emits those which arrived intact
+        connection.on("packet", function(packet: string): void {
+            if (pendingQuery && packet[0] !== "O") {
+                const reply: Q.Deferred<string> = pendingQuery;
+                pendingQuery = null;
+                reply.resolve(packet);
+            } else if (pendingStep && (currentStep === "QStartNoAckMode" || currentStep === "qLaunchSuccess" || currentStep === "qProcessInfo")) {
+                // Queries are answered with data, an error, or an empty packet if the debug server does not support them
+                pendingStep.resolve(packet);
+            } else if (packet[0] === "W") {
+                // The app process has exited, with hex status given by packet[1-2]
+                const status: number = parseInt(packet.substring(1, 3), 16);
+                session.end(false, "exited", status, null);
+            } else if (packet[0] === "X") {
+                // The app process exited because of signal given by packet[1-2]
+                const signal: number = parseInt(packet.substring(1, 3), 16);
+                session.end(false, "signaled", null, signal);
+            } else if (packet[0] === "T" && currentStep.indexOf("vAttach") === 0 && pendingStep) {
+                // Attaching stops the process, until we continue it
+                pendingStep.resolve(packet);
+            } else if (packet[0] === "T") {
+                // The debugger has stopped the process for some reason, most likely a crash.
+                // The message includes the stop signal, the stopped thread, the reason and register contents.
+                // If it stopped because we interrupted it, the session carries on.
+                const stopInfo: StopInfo = parseStopReply(packet);
+                if (session.handleStop(stopInfo)) {
+                    return;
+                } else if (launchOptions.collectBacktrace) {
+                    collectingBacktrace = true;
+                    collectBacktrace(stopInfo, query).done(function(fullStopInfo: StopInfo): void {
+                        session.end(true, "stopped", null, fullStopInfo.signal, fullStopInfo);
+                    });
+                } else {
+                    session.end(true, "stopped", null, stopInfo.signal, stopInfo);
+                }
+            } else if (packet === "OK") {
+                // last command was received OK;
+                // iOS 10 seems to have changed how output is reported over the debugging channel
+                // We no longer get the "O<message>#<hash>" message that we expected in the past,
+                // although the app launches correctly. Instead we assume that if we get the OK
+                // message in reply to "c" that the app is probably launched.
+                if (pendingStep) {
+                    pendingStep.resolve(packet);
+                } else {
+                    session.handleReply(packet);
+                }
+            } else if (packet[0] === "O") {
+                // STDOUT was written to, and the rest of the packet is a hex-encoded string of that output
+                const text: string = outputDecoder.write(new Buffer(packet.substring(1), "hex"));
+                if (text) {
+                    if (appOutput) {
+                        appOutput.write(text);
                     }
-                } else if (data[1] === "E") {
-                    // An error has occurred, with error code given by data[2-3]: parseInt(data.substring(2, 4), 16)
-                    deferred1.reject("UnableToLaunchApp");
-                    deferred2.reject("UnableToLaunchApp");
-                    deferred3.reject("UnableToLaunchApp");
+                    session.emit("output", text);
+                }
+                if (currentStep === "c" && pendingStep) {
+                    pendingStep.resolve(packet);
+                }
+            } else if (packet[0] === "E") {
+                // An error has occurred, with error code given by packet[1-2]: parseInt(packet.substring(1, 3), 16)
+                if (pendingStep) {
+                    const failure: string = currentStep.indexOf("vAttach") === 0 ? "UnableToAttachToApp" : "UnableToLaunchApp";
+                    rejectStep(failure, new Error(`The debug server replied ${packet}`));
+                } else {
+                    session.handleReply(packet);
                 }
             }
         });
 
+        // A packet we sent was rejected by the debug server too many times
+        connection.on("error", function(err: Error): void {
+            socket.end();
+            rejectStep("UnableToLaunchApp", err);
+        });
+
+        const connected: Q.Deferred<string> = Q.defer<string>();
+        pendingStep = connected;
+
         socket.on("end", function(): void {
-            deferred1.reject("UnableToLaunchApp");
-            deferred2.reject("UnableToLaunchApp");
-            deferred3.reject("UnableToLaunchApp");
+            rejectStep("UnableToLaunchApp");
         });
 
         socket.on("error", function(err: Error): void {
-            deferred1.reject(err);
-            deferred2.reject(err);
-            deferred3.reject(err);
+            rejectStep(currentStep === "connect" ? "DebugProxyConnectionFailed" : "UnableToLaunchApp", err);
+        });
+
+        socket.on("close", function(): void {
+            if (!launched) {
+                rejectStep("UnableToLaunchApp");
+            } else if (!collectingBacktrace) {
+                session.handleDisconnect();
+            }
+            // A crash whose backtrace was being collected still ends the session as "stopped", with what was collected
+            if (pendingQuery) {
+                pendingQuery.reject(new IDeviceLaunchError("SessionEnded", currentStep));
+            }
+            if (appOutput) {
+                appOutput.end();
+            }
         });
 
+        const connectStarted: number = Date.now();
         socket.connect(portNumber, "localhost", function(): void {
-            // set argument 0 to the (encoded) path of the app
-            const cmd: string = IosAppRunnerHelper.makeGdbCommand("A" + encodedPath.length + ",0," + encodedPath);
-            initState++;
-            socket.write(cmd);
-            setTimeout(function(): void {
-                deferred1.reject("DeviceLaunchTimeout");
-            }, appLaunchStepTimeout);
+            session.timings.push({ step: "connect", duration: Date.now() - connectStarted });
+            connected.resolve("");
+        });
+
+        // If the caller gives up on the launch, abandon the connection along with the step in progress
+        cancellation.onCancel(function(reason: string): void {
+            rejectStep(reason);
+            socket.destroy();
+        });
+
+        // However the launch fails, close the connection, so that neither it nor the suspended app is left behind
+        function abandonLaunch(err: any): any {
+            pendingStep = null;
+            connection.removeAllListeners();
+            socket.removeAllListeners();
+            socket.on("error", (): void => null);
+            socket.destroy();
+            if (appOutput) {
+                appOutput.end();
+            }
+            throw err;
+        }
+
+        let handshake: Q.Promise<string> = connected.promise;
+        if (launchOptions.noAckMode) {
+            handshake = handshake.then(function(): Q.Promise<string> {
+                return sendStep("QStartNoAckMode", "QStartNoAckMode");
+            }).then(function(reply: string): string {
+                // Debug servers which do not support it reply with an empty packet, and carry on acknowledging packets
+                if (reply === "OK") {
+                    connection.startNoAckMode();
+                }
+                return reply;
+            });
+        }
+
+        if (attachCommand) {
+            const attachStep: string = attachCommand.split(";")[0];
+            return handshake.then(function(): Q.Promise<string> {
+                // Waiting for the app to be launched may take as long as the user takes, so only the overall timeout applies
+                return sendStep(attachStep, attachCommand, attachStep === "vAttachWait" ? 0 : appLaunchStepTimeout);
+            }).then(function(): Q.Promise<string> {
+                return sendStep("qProcessInfo", "qProcessInfo");
+            }).then(function(reply: string): DebugSession {
+                setProcessInfo(reply);
+                // Let the app carry on running
+                session.startTime = Date.now();
+                connection.send("c");
+                pendingStep = null;
+                launched = true;
+                return session;
+            }).catch(abandonLaunch);
+        }
+
+        let launch: Q.Promise<string> = handshake;
+        Object.keys(env).forEach(function(name: string): void {
+            launch = launch.then(function(): Q.Promise<string> {
+                return sendStep("QEnvironment", IosAppRunnerHelper.makeEnvironmentCommand(name, env[name]));
+            });
         });
 
-        return deferred1.promise.then(function(sock: net.Socket): Q.Promise<net.Socket> {
+        return launch.then(function(): Q.Promise<string> {
+            // set argument 0 to the (encoded) path of the app, and any further arguments after it
+            const encodedArgs: string[] = args.map(function(arg: string, index: number): string {
+                const encodedArg: string = IosAppRunnerHelper.encodePath(arg);
+                return encodedArg.length + "," + index + "," + encodedArg;
+            });
+            return sendStep("A", "A" + encodedArgs.join(","));
+        }).then(function(): Q.Promise<string> {
+            // Confirm that the app was launched. A failure is explained in text rather than just a code.
+            return sendStep("qLaunchSuccess", "qLaunchSuccess");
+        }).then(function(reply: string): Q.Promise<string> {
+            if (reply[0] === "E") {
+                const description: string = reply.substring(1);
+                throw new IDeviceLaunchError(IosAppRunnerHelper.getLaunchFailureCode(description), "qLaunchSuccess", new Error(description));
+            }
             // Set the step and continue thread to any thread
-            const cmd: string = IosAppRunnerHelper.makeGdbCommand("Hc0");
-            initState++;
-            sock.write(cmd);
-            setTimeout(function(): void {
-                deferred2.reject("DeviceLaunchTimeout");
-            }, appLaunchStepTimeout);
-            return deferred2.promise;
-        }).then(function(sock: net.Socket): Q.Promise<net.Socket> {
+            return sendStep("Hc0", "Hc0");
+        }).then(function(): Q.Promise<string> {
+            return sendStep("qProcessInfo", "qProcessInfo");
+        }).then(function(reply: string): Q.Promise<string> {
+            setProcessInfo(reply);
             // Continue execution; actually start the app running.
-            const cmd: string = IosAppRunnerHelper.makeGdbCommand("c");
-            initState++;
-            sock.write(cmd);
-            setTimeout(function(): void {
-                deferred3.reject("DeviceLaunchTimeout");
-            }, appLaunchStepTimeout);
-            return deferred3.promise;
-        });
+            session.startTime = Date.now();
+            return sendStep("c", "c");
+        }).then(function(): DebugSession {
+            pendingStep = null;
+            launched = true;
+            return session;
+        }).catch(abandonLaunch);
     }
 
     public static encodePath(packagePath: string): string {
-        // Encode the path by converting each character value to hex
-        return packagePath.replace(/./g, (char: string) => char.charCodeAt(0).toString(16).toUpperCase());
+        // Encode the path by converting each byte of its UTF-8 representation to hex
+        return new Buffer(packagePath, "utf8").toString("hex").toUpperCase();
+    }
+
+    public static decodePath(encodedPath: string): string {
+        // Reverse encodePath, interpreting the decoded bytes as UTF-8
+        return new Buffer(encodedPath, "hex").toString("utf8");
+    }
+
+    // Install an .ipa file or .app directory on the device, replacing any existing version of the app
+    public static installApp(appPath: string, options: InstallOptions = {}): Q.Promise<any> {
+        IosAppRunnerHelper.invalidateInstalledAppsCache(options.udid);
+        return IosAppRunnerHelper.runInstaller(["-i", appPath], "install", "ErrorInstallingApp", options);
+    }
+
+    public static uninstallApp(packageId: string, options: InstallOptions = {}): Q.Promise<any> {
+        IosAppRunnerHelper.invalidateInstalledAppsCache(options.udid);
+        return IosAppRunnerHelper.runInstaller(["-U", packageId], "uninstall", "ErrorUninstallingApp", options);
+    }
+
+    // Install the app, then launch it as startApp does. The debug proxy must already be running.
+    public static installAndLaunch(appPath: string, packageId: string, proxyPort: number, appLaunchStepTimeout: number, sessionEndCallback?: SessionEndCallback, installOptions: InstallOptions = {}, launchOptions?: LaunchOptions): Q.Promise<DebugSession> {
+        return IosAppRunnerHelper.installApp(appPath, installOptions).then(function(): Q.Promise<DebugSession> {
+            return IosAppRunnerHelper.startApp(packageId, proxyPort, appLaunchStepTimeout, sessionEndCallback, installOptions.udid, launchOptions);
+        });
+    }
+
+    private static runInstaller(args: string[], step: string, defaultErrorId: string, options: InstallOptions): Q.Promise<any> {
+        let connection: ConnectionType;
+        return IosAppRunnerHelper.resolveConnection(options.udid, options.connection, new Cancellation()).then(function(resolved: ConnectionType): Q.Promise<any> {
+            connection = resolved;
+            const installer: child_process.ChildProcess = spawnTraced("ideviceinstaller", IosAppRunnerHelper.deviceArgs(options.udid, connection).concat(args));
+            const deferred: Q.Deferred<any> = Q.defer();
+            let output: string = "";
+            let partialLine: string = "";
+            let completed: boolean = false;
+
+            // Progress is reported as lines such as "Install: CopyingApplication (40%)", or "Install - Complete" in older versions
+            function onData(data: any): void {
+                const lines: string[] = (partialLine + data.toString()).split("\n");
+                partialLine = lines.pop();
+                lines.forEach(function(line: string): void {
+                    output += line + "\n";
+                    const progress: RegExpMatchArray = line.match(/^\s*(?:Install|Uninstall)\s*[:-]\s*(\w+)(?:\s*\((\d+)%\))?/);
+                    if (progress) {
+                        completed = completed || progress[1] === "Complete";
+                        if (options.progressCallback) {
+                            options.progressCallback({ status: progress[1], percent: progress[2] ? parseInt(progress[2], 10) : null });
+                        }
+                    }
+                });
+            }
+
+            installer.stdout.on("data", onData);
+            installer.stderr.on("data", onData);
+            installer.on("close", function(code: number): void {
+                output += partialLine;
+                // Some versions of ideviceinstaller exit successfully even when the installation failed, reporting it on a line starting with "ERROR:".
+                // Only such lines count, since the app's bundle id or path may well contain "error".
+                if (code === 0 && completed && !/^\s*ERROR:/m.test(output)) {
+                    deferred.resolve({});
+                } else {
+                    deferred.reject(new IDeviceLaunchError(IosAppRunnerHelper.getInstallerErrorId(output, defaultErrorId, connection), step, null, output));
+                }
+            });
+            installer.on("error", function(err: any): void {
+                deferred.reject(new IDeviceLaunchError(err.code === "ENOENT" ? "IDeviceInstallerNotFound" : defaultErrorId, step, err));
+            });
+            return deferred.promise;
+        });
     }
 
-    private static mountDeveloperImage(): Q.Promise<any> {
-        return IosAppRunnerHelper.getDiskImage()
-            .then(function(path: string): Q.Promise<any> {
-                const imagemounter: child_process.ChildProcess = child_process.spawn("ideviceimagemounter", [path]);
+    // Run a tool to completion without a shell, resolving with its output. Unlike exec, there is no limit on the size of the output.
+    private static runTool(command: string, args: string[], cancellation: Cancellation = new Cancellation()): Q.Promise<string> {
+        const deferred: Q.Deferred<string> = Q.defer<string>();
+        const tool: child_process.ChildProcess = spawnTraced(command, args);
+        const stopWatching: () => void = IosAppRunnerHelper.killOnCancel(tool, deferred, cancellation);
+        const stdout: Buffer[] = [];
+        let stderr: string = "";
+        tool.stdout.on("data", (data: Buffer) => stdout.push(data));
+        tool.stderr.on("data", (data: Buffer) => stderr += data.toString());
+        tool.on("error", function(err: any): void {
+            stopWatching();
+            deferred.reject(err);
+        });
+        tool.on("close", function(code: number): void {
+            stopWatching();
+            if (code === 0) {
+                deferred.resolve(Buffer.concat(stdout).toString("utf8"));
+            } else {
+                const err: any = new Error(`${command} exited with code ${code}`);
+                err.exitCode = code;
+                err.stdout = Buffer.concat(stdout).toString("utf8");
+                err.stderr = stderr;
+                deferred.reject(err);
+            }
+        });
+        return deferred.promise;
+    }
+
+    // Kill the child process and reject with the reason if the operation is cancelled, until the returned function is called
+    private static killOnCancel(child: child_process.ChildProcess, deferred: Q.Deferred<any>, cancellation: Cancellation): () => void {
+        return cancellation.onCancel(function(reason: string): void {
+            child.kill();
+            deferred.reject(new IDeviceLaunchError(reason));
+        });
+    }
+
+    // Make a rejection handler which reports failures of a tool run by runTool as the given error code
+    private static toolError(code: string, step: string, notFoundCode: string = code): (err: any) => any {
+        return function(err: any): any {
+            if (err instanceof IDeviceLaunchError) {
+                err.step = err.step || step;
+                throw err;
+            }
+            throw new IDeviceLaunchError(err.code === "ENOENT" ? notFoundCode : code, step, err);
+        };
+    }
+
+    // Map the reasons the device gives for refusing an app to more specific errors
+    private static getInstallerErrorId(output: string, defaultErrorId: string, connection: ConnectionType): string {
+        if (output.indexOf("No device found") !== -1) {
+            return noDeviceError(connection);
+        } else if (/provisioning profile|0xe8008015/i.test(output)) {
+            return "AppProvisioningProfileInvalid";
+        } else if (/entitlement|0xe8008016/i.test(output)) {
+            return "AppEntitlementsInvalid";
+        } else if (/signature|signed|ApplicationVerificationFailed/i.test(output)) {
+            return "AppSignatureInvalid";
+        } else if (/DeviceOSVersionTooLow|MinimumOSVersion/i.test(output)) {
+            return "DeviceOSVersionTooLow";
+        } else if (/APIInternalError|not installed|ApplicationLookupFailed/i.test(output) && defaultErrorId === "ErrorUninstallingApp") {
+            return "PackageNotInstalled";
+        }
+        return defaultErrorId;
+    }
+
+    // Map the reason debugserver gives for failing to launch an app, e.g.
+    // "The request was denied by service delegate (SBMainWorkspace) for reason: Security ("Unable to launch ... because it has an invalid code signature, inadequate entitlements or its profile has not been explicitly trusted by the user")."
+    private static getLaunchFailureCode(description: string): string {
+        if (/locked/i.test(description)) {
+            return "DeviceLocked";
+        } else if (/Security|trusted/i.test(description)) {
+            return "UntrustedDeveloper";
+        }
+        return "UnableToLaunchApp";
+    }
+
+    // The proxy this package started for the device, if it can be used for the options as it is
+    private static getReusableProxy(options: DebugProxyOptions, connection: ConnectionType): Q.Promise<DebugProxyManager> {
+        const existing: DebugProxyManager = SharedState.getNativeDebuggerProxyInstance(options.udid);
+        // Older versions of this package keep the proxy's ChildProcess in SharedState instead
+        if (!existing || typeof existing.isHealthy !== "function" || (options.port && options.port !== existing.port) || existing.connection !== connection) {
+            return Q<DebugProxyManager>(null);
+        }
+        return existing.isHealthy().then((healthy: boolean) => healthy ? existing : null);
+    }
+
+    // With useCachedState, a device already known to have an image mounted is not asked again
+    private static mountImage(udid: string, connection: ConnectionType, options: DiskImageOptions, useCachedState: boolean, cancellation: Cancellation): Q.Promise<any> {
+        const state: IDeviceState = getDeviceState(udid);
+        const mountedAlready: Q.Promise<boolean> = useCachedState && state.imageMounted ? Q(true) : IosAppRunnerHelper.isImageMounted(udid, connection, cancellation);
+        return mountedAlready.then(function(mounted: boolean): Q.Promise<any> {
+            if (mounted) {
+                getLogger().info("A developer disk image is already mounted");
+                state.imageMounted = true;
+                return Q({});
+            }
+
+            return IosAppRunnerHelper.getDiskImage(udid, connection, options, cancellation).then(function(image: DiskImage): Q.Promise<any> {
+                getLogger().info(`Mounting the developer disk image ${image.imagePath}`);
+                const imagemounter: child_process.ChildProcess = spawnTraced("ideviceimagemounter", IosAppRunnerHelper.deviceArgs(udid, connection).concat([image.imagePath, image.signaturePath]));
                 const deferred: Q.Deferred<any> = Q.defer();
+                const stopWatching: () => void = IosAppRunnerHelper.killOnCancel(imagemounter, deferred, cancellation);
                 let stdout: string = "";
+                let stderr: string = "";
                 imagemounter.stdout.on("data", function(data: any): void {
                     stdout += data.toString();
                 });
+                imagemounter.stderr.on("data", function(data: any): void {
+                    stderr += data.toString();
+                });
                 imagemounter.on("close", function(code: number): void {
-                    if (code !== 0) {
-                        if (stdout.indexOf("Error:") !== -1) {
-                            deferred.resolve({}); // Technically failed, but likely caused by the image already being mounted.
-                        } else if (stdout.indexOf("No device found, is it plugged in?") !== -1) {
-                            deferred.reject(new Error("NoDeviceAttached"));
-                        }
-
-                        deferred.reject(new Error("ErrorMountingDiskImage"));
-                    } else {
+                    stopWatching();
+                    if (code === 0) {
+                        state.imageMounted = true;
                         deferred.resolve({});
+                    } else if (stdout.indexOf("No device found") !== -1) {
+                        deferred.reject(new IDeviceLaunchError(noDeviceError(connection), "mount", null, stderr));
+                    } else {
+                        // The device may have been updated to an iOS version needing another image
+                        state.diskImage = null;
+                        deferred.reject(new IDeviceLaunchError("ErrorMountingDiskImage", "mount", new Error(stdout.trim()), stderr));
                     }
                 });
                 imagemounter.on("error", function(err: any): void {
-                    deferred.reject(err);
+                    stopWatching();
+                    deferred.reject(new IDeviceLaunchError(err.code === "ENOENT" ? "IDeviceImageMounterNotFound" : "ErrorMountingDiskImage", "mount", err));
                 });
                 return deferred.promise;
             });
+        });
     }
 
-    private static getDiskImage(): Q.Promise<string> {
-        // Attempt to find the OS version of the iDevice, e.g. 7.1
-        const versionInfo: Q.Promise<any> = promiseExec("ideviceinfo -s -k ProductVersion").spread<string>(function(stdout: string, stderr: string): string {
-            let version = stdout.trim().split(".");
-            version.splice(2); // Strip everything past the minor version
-            return version.join(".");
-        }, function(): string {
-            throw new Error("FailedGetDeviceInfo");
+    // Whether the device already has a developer disk image mounted, according to ideviceimagemounter -l.
+    // If it cannot tell, mounting is attempted anyway.
+    private static isImageMounted(udid: string, connection: ConnectionType, cancellation: Cancellation): Q.Promise<boolean> {
+        return Q.fcall(IosAppRunnerHelper.deviceArgs, udid, connection).then(function(deviceArgs: string[]): Q.Promise<string> {
+            return IosAppRunnerHelper.runTool("ideviceimagemounter", deviceArgs.concat(["-l", "-x"]), cancellation);
+        }).then(isDiskImageMounted, function(err: any): boolean {
+            if (err instanceof IDeviceLaunchError) {
+                throw err;
+            }
+            return false;
         });
+    }
 
-        // Attempt to find the path where developer resources exist.
-        const pathInfo: Q.Promise<any> = promiseExec("xcrun -sdk iphoneos --show-sdk-platform-path").spread<string>(function(stdout: string, stderr: string): string {
-            const sdkpath: string = stdout.trim();
-            return sdkpath;
-        });
+    private static getDiskImage(udid: string, connection: ConnectionType, options: DiskImageOptions, cancellation: Cancellation): Q.Promise<DiskImage> {
+        if (options.diskImagePath) {
+            return Q.fcall(findDiskImage, null, options, []);
+        }
 
-        // Attempt to find the developer disk image for the appropriate 
-        return Q.all([versionInfo, pathInfo]).spread<string>(function(version: string, sdkpath: string): Q.Promise<string> {
-            const find: child_process.ChildProcess = child_process.spawn("find", [sdkpath, "-path", "*" + version + "*", "-name", "DeveloperDiskImage.dmg"]);
-            const deferred: Q.Deferred<string> = Q.defer<string>();
+        // The image only changes with the device's iOS version, or with where it is looked for
+        const state: IDeviceState = getDeviceState(udid);
+        const key: string = JSON.stringify(options.diskImageSearchPaths || []);
+        if (state.diskImage && state.diskImageKey === key) {
+            return Q(state.diskImage);
+        }
 
-            find.stdout.on("data", function(data: any): void {
-                const dataStr: string = data.toString();
-                const path: string = dataStr.split("\n")[0].trim();
-                if (!path) {
-                    deferred.reject(new Error("FailedFindDeveloperDiskImage"));
-                } else {
-                    deferred.resolve(path);
-                }
-            });
-            find.on("close", function(code: number): void {
-                deferred.reject(new Error("FailedFindDeveloperDiskImage"));
-            });
+        // Attempt to find the OS version of the iDevice, e.g. 7.1.2
+        const versionInfo: Q.Promise<string> = Q.fcall(IosAppRunnerHelper.deviceArgs, udid, connection).then(function(deviceArgs: string[]): Q.Promise<string> {
+            return IosAppRunnerHelper.runTool("ideviceinfo", deviceArgs.concat(["-s", "-k", "ProductVersion"]), cancellation);
+        }).then(function(stdout: string): string {
+            return stdout.trim();
+        }, function(err: any): string {
+            const output: string = (err.stdout || "") + (err.stderr || "");
+            if (output.indexOf("No device found") !== -1) {
+                throw new IDeviceLaunchError(noDeviceError(connection), "mount", err);
+            }
+            return IosAppRunnerHelper.toolError("FailedGetDeviceInfo", "mount")(err);
+        });
 
-            return deferred.promise;
+        // Attempt to find the path where developer resources exist. Xcode is only needed if no other directories were given to search.
+        const searchPaths: string[] = options.diskImageSearchPaths || [];
+        const pathInfo: Q.Promise<string[]> = IosAppRunnerHelper.runTool("xcrun", ["-sdk", "iphoneos", "--show-sdk-platform-path"], cancellation).then(function(stdout: string): string[] {
+            return searchPaths.concat([stdout.trim()]);
+        }, function(err: any): string[] {
+            if (searchPaths.length && !(err instanceof IDeviceLaunchError)) {
+                return searchPaths;
+            }
+            return IosAppRunnerHelper.toolError("FailedFindDeveloperDiskImage", "mount")(err);
+        });
+
+        return Q.all<any>([versionInfo, pathInfo]).spread<DiskImage>(function(version: string, paths: string[]): DiskImage {
+            state.diskImage = findDiskImage(version, options, paths);
+            state.diskImageKey = key;
+            return state.diskImage;
         });
     }
 
-    private static makeGdbCommand(command: string): string {
-        let stringSum: number = 0;
-        for (let i: number = 0; i < command.length; i++) {
-            stringSum += command.charCodeAt(i);
-        }
+    // The process of an app is named after its executable, which by convention has the same name as the bundle, e.g. MyApp in MyApp.app
+    private static getProcessName(appPath: string): string {
+        const bundleName: string = appPath.replace(/\/+$/, "").split("/").pop();
+        return bundleName.replace(/\.app$/, "");
+    }
 
-        stringSum = stringSum % 256;
+    // Variables containing characters which are special to the protocol must be sent hex encoded
+    private static makeEnvironmentCommand(name: string, value: string): string {
+        const variable: string = name + "=" + value;
+        if (/^[\x20-\x7e]*$/.test(variable) && !/[$#}*]/.test(variable)) {
+            return "QEnvironment:" + variable;
+        }
+        return "QEnvironmentHexEncoded:" + IosAppRunnerHelper.encodePath(variable);
+    }
 
-        let checksum: string = stringSum.toString(16).toUpperCase();
-        if (checksum.length < 2) {
-            checksum = "0" + checksum;
+    // Arguments selecting a specific device for the libimobiledevice tools, which otherwise use the first device found.
+    // The UDID must not contain anything but hex digits and dashes, so that it cannot be mistaken for another option.
+    private static deviceArgs(udid?: string, connection?: ConnectionType): string[] {
+        if (!udid) {
+            return connectionArgs(connection);
         }
+        if (!/^[0-9a-fA-F-]+$/.test(udid)) {
+            throw new IDeviceLaunchError("InvalidDeviceId");
+        }
+        return ["-u", udid].concat(connectionArgs(connection));
+    }
+
+    // Narrow a connection of "any" down to how the device, or the first device found, is connected, preferring USB.
+    // Other connections are used as they are, without looking for the device first.
+    private static resolveConnection(udid: string, connection: ConnectionType, cancellation: Cancellation): Q.Promise<ConnectionType> {
+        return Q.fcall(IosAppRunnerHelper.deviceArgs, udid).then(function(): Q.Promise<ConnectionType> {
+            if (connection !== "any") {
+                return Q<ConnectionType>(connection || "usb");
+            }
 
-        return `$${command}#${checksum}`;
+            return IosAppRunnerHelper.runTool("idevice_id", listDevicesArgs("any"), cancellation)
+                .catch(IosAppRunnerHelper.toolError("FailedListDevices", "devices", "IDeviceIdNotFound"))
+                .then(function(stdout: string): ConnectionType {
+                    const devices: ConnectedDevice[] = parseDeviceList(stdout, "any").filter((device: ConnectedDevice) => !udid || device.udid === udid);
+                    if (!devices.length) {
+                        throw new IDeviceLaunchError("NoDeviceFound", "devices");
+                    }
+                    return devices.some((device: ConnectedDevice) => device.connection === "usb") ? "usb" : "network";
+                });
+        });
     }
 }
\ No newline at end of file
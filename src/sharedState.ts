@@ -3,13 +3,14 @@
 
 "use strict";
 
-import {ChildProcess} from "child_process";
+import {DebugProxyManager} from "./debugProxyManager";
 
 declare interface SharedStateGlobal {
     // We use the global.tacoRemoteLib namespace here for backwards compatibility with taco-remote-lib
     // where this code was originally authored
     tacoRemoteLib?: {
-        nativeDebuggerProxyInstance?: ChildProcess
+        nativeDebuggerProxyInstance?: DebugProxyManager,
+        nativeDebuggerProxyInstances?: { [udid: string]: DebugProxyManager }
     }
 }
 
@@ -19,14 +20,14 @@ declare var global: SharedStateGlobal;
 // share access. The primary use case of this is for taco-remote-lib packages existing either side-by-side, or 
 // persisting between updates of the package. 
 export class SharedState {
-    public static get nativeDebuggerProxyInstance(): ChildProcess {
+    public static get nativeDebuggerProxyInstance(): DebugProxyManager {
         if (global.tacoRemoteLib) {
             return global.tacoRemoteLib.nativeDebuggerProxyInstance;
         }
         return null;
     }
 
-    public static set nativeDebuggerProxyInstance(instance: ChildProcess) {
+    public static set nativeDebuggerProxyInstance(instance: DebugProxyManager) {
         if (global.tacoRemoteLib) {
             global.tacoRemoteLib.nativeDebuggerProxyInstance = instance;
         } else {
@@ -35,4 +36,34 @@ export class SharedState {
             };
         }
     }
+
+    // Proxies started without a device id target "the first device", and keep using the original slot above so that
+    // older versions of this package still find them. Proxies for specific devices are kept per device id.
+    public static getNativeDebuggerProxyInstance(udid?: string): DebugProxyManager {
+        if (!udid) {
+            return SharedState.nativeDebuggerProxyInstance;
+        }
+        if (global.tacoRemoteLib && global.tacoRemoteLib.nativeDebuggerProxyInstances) {
+            return global.tacoRemoteLib.nativeDebuggerProxyInstances[udid] || null;
+        }
+        return null;
+    }
+
+    public static setNativeDebuggerProxyInstance(udid: string, instance: DebugProxyManager): void {
+        if (!udid) {
+            SharedState.nativeDebuggerProxyInstance = instance;
+            return;
+        }
+        if (!global.tacoRemoteLib) {
+            global.tacoRemoteLib = {};
+        }
+        if (!global.tacoRemoteLib.nativeDebuggerProxyInstances) {
+            global.tacoRemoteLib.nativeDebuggerProxyInstances = {};
+        }
+        if (instance) {
+            global.tacoRemoteLib.nativeDebuggerProxyInstances[udid] = instance;
+        } else {
+            delete global.tacoRemoteLib.nativeDebuggerProxyInstances[udid];
+        }
+    }
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+// debugserver reports signals by their native Darwin numbers, which differ from Linux for some signals
+const darwinSignalNames: string[] = [
+    null, "SIGHUP", "SIGINT", "SIGQUIT", "SIGILL", "SIGTRAP", "SIGABRT", "SIGEMT", "SIGFPE", "SIGKILL",
+    "SIGBUS", "SIGSEGV", "SIGSYS", "SIGPIPE", "SIGALRM", "SIGTERM", "SIGURG", "SIGSTOP", "SIGTSTP", "SIGCONT",
+    "SIGCHLD", "SIGTTIN", "SIGTTOU", "SIGIO", "SIGXCPU", "SIGXFSZ", "SIGVTALRM", "SIGPROF", "SIGWINCH", "SIGINFO",
+    "SIGUSR1", "SIGUSR2"
+];
+
+export function getSignalName(signal: number): string {
+    return darwinSignalNames[signal] || null;
+}
+
+// The number of a signal from its name, e.g. for the exit code a shell reports for a process it ended
+export function getSignalNumber(name: string): number {
+    const signal: number = darwinSignalNames.indexOf(name);
+    return signal > 0 ? signal : null;
+}
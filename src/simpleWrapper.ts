@@ -1,7 +1,10 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license. See LICENSE file in the project root for details.
 
-import {IosAppRunnerHelper} from "./runApp";
+import {ConnectionOptions} from "./connection";
+import {DebugProxyOptions} from "./debugProxyManager";
+import {IDeviceLaunchError} from "./errors";
+import {AttachTarget, CheckDeviceOptions, IosAppRunnerHelper, InstallOptions, LaunchOptions, ListInstalledAppsOptions, MountOptions, SessionEndCallback} from "./runApp";
 
 // This file provides a mapping from localizable error IDs to english messages, intended for use when full localization is not desired.
 const errorMap: { [key: string]: string } = {
@@ -13,24 +16,119 @@ const errorMap: { [key: string]: string } = {
     "NoDeviceAttached": "Unable to find device. Is the device plugged in?",
     "ErrorMountingDiskImage": "Unable to mount developer disk image",
     "FailedGetDeviceInfo": "Unable to get device OS version",
-    "FailedFindDeveloperDiskImage": "Unable to find developer disk image"
+    "FailedFindDeveloperDiskImage": "Unable to find developer disk image",
+    "DeveloperDiskImageSignatureMissing": "The developer disk image has no signature file beside it",
+    "InvalidDeviceId": "The device id is not a valid UDID",
+    "IDeviceIdNotFound": "Unable to find idevice_id. Please 'brew install libimobiledevice' and try again.",
+    "FailedListDevices": "Unable to list attached devices",
+    "ErrorInstallingApp": "Unable to install application on device.",
+    "ErrorUninstallingApp": "Unable to uninstall application from device.",
+    "AppProvisioningProfileInvalid": "Unable to install application: no valid provisioning profile for this device was found.",
+    "AppEntitlementsInvalid": "Unable to install application: the application was signed with invalid entitlements.",
+    "AppSignatureInvalid": "Unable to install application: the application's code signature could not be verified.",
+    "DeviceOSVersionTooLow": "Unable to install application: the device's iOS version is lower than the application requires.",
+    "IDeviceDebugServerProxyNotFound": "Unable to find idevicedebugserverproxy. Please 'brew install libimobiledevice' and try again.",
+    "IDeviceDebugServerProxyExitedEarly": "The debug server proxy exited unexpectedly. Is the port already in use?",
+    "ErrorStartingDebugProxy": "Unable to start the debug server proxy",
+    "DebugProxyNotReady": "Timed out waiting for the debug server proxy to accept connections",
+    "IDeviceImageMounterNotFound": "Unable to find ideviceimagemounter. Please 'brew install libimobiledevice' and try again.",
+    "DebugProxyConnectionFailed": "Unable to connect to the debug server proxy. Is it running?",
+    "DebuggerQueryTimeout": "Timed out waiting for the debug server to reply",
+    "Cancelled": "The operation was cancelled",
+    "InvalidAttachTarget": "A process id, process name or bundle id is needed to attach to an app",
+    "UnableToAttachToApp": "Unable to attach to the application. Is it running?",
+    "SessionEnded": "The app is no longer being debugged",
+    "SessionCommandFailed": "The debug server was unable to carry out the command",
+    "DeviceLocked": "Unable to launch the application because the device is locked. Please unlock it and try again.",
+    "UntrustedDeveloper": "Unable to launch the application because its developer is not trusted. Please trust the developer in the device's settings and try again.",
+    "DeviceNotPaired": "This computer is not paired with the device. Please unlock the device, accept the trust dialog and try again.",
+    "IDevicePairNotFound": "Unable to find idevicepair. Please 'brew install libimobiledevice' and try again.",
+    "NoNetworkDeviceFound": "Unable to find the device on the network. Is it paired with this computer and on the same network?",
+    "NoDeviceFound": "Unable to find the device, either plugged in or on the network."
 };
 
-function defaultError(err: Error) {
-    if (errorMap[err.message]) {
-        err.message = errorMap[err.message];
+// Messages provided by the host, e.g. translations of the messages above
+let messageCatalog: { [key: string]: string } = null;
+
+// Use the given messages in place of the english ones, falling back to english for any error IDs missing from the catalog.
+// Pass null to restore the english messages.
+export function setMessageCatalog(catalog: { [key: string]: string }): void {
+    messageCatalog = catalog;
+}
+
+function defaultError(err: Error): any {
+    const code: string = err instanceof IDeviceLaunchError ? err.code : err.message;
+    const message: string = (messageCatalog && messageCatalog[code]) || errorMap[code];
+    if (message) {
+        err.message = message;
     }
     throw err;
 }
 
-export function startApp(packageId: string, proxyPort: number, appLaunchStepTimeout: number = 5000, sessionEndCallback?: (isCrash: boolean) => void) {
-    return IosAppRunnerHelper.startApp(packageId, proxyPort, appLaunchStepTimeout, sessionEndCallback).catch(defaultError);
+export function startApp(packageId: string, proxyPort: number, appLaunchStepTimeout: number = 5000, sessionEndCallback?: SessionEndCallback, udid?: string, launchOptions?: LaunchOptions) {
+    return IosAppRunnerHelper.startApp(packageId, proxyPort, appLaunchStepTimeout, sessionEndCallback, udid, launchOptions).catch(defaultError);
+}
+
+export function startAppViaDebugger(portNumber: number, packagePath: string, appLaunchStepTimeout: number = 5000, sessionEndCallback?: SessionEndCallback, launchOptions?: LaunchOptions) {
+    return IosAppRunnerHelper.startAppViaDebugger(portNumber, packagePath, appLaunchStepTimeout, sessionEndCallback, launchOptions).catch(defaultError);
+}
+
+export function attachToApp(target: AttachTarget, proxyPort: number, appLaunchStepTimeout: number = 5000, sessionEndCallback?: SessionEndCallback, launchOptions?: LaunchOptions) {
+    return IosAppRunnerHelper.attachToApp(target, proxyPort, appLaunchStepTimeout, sessionEndCallback, launchOptions).catch(defaultError);
+}
+
+export function listInstalledApps(options?: ListInstalledAppsOptions) {
+    return IosAppRunnerHelper.listInstalledApps(options).catch(defaultError);
+}
+
+export function invalidateInstalledAppsCache(udid?: string) {
+    IosAppRunnerHelper.invalidateInstalledAppsCache(udid);
+}
+
+export function invalidateDeviceCache(udid?: string) {
+    IosAppRunnerHelper.invalidateDeviceCache(udid);
+}
+
+export function installApp(appPath: string, options?: InstallOptions) {
+    return IosAppRunnerHelper.installApp(appPath, options).catch(defaultError);
+}
+
+export function uninstallApp(packageId: string, options?: InstallOptions) {
+    return IosAppRunnerHelper.uninstallApp(packageId, options).catch(defaultError);
+}
+
+export function installAndLaunch(appPath: string, packageId: string, proxyPort: number, appLaunchStepTimeout: number = 5000, sessionEndCallback?: SessionEndCallback, installOptions?: InstallOptions, launchOptions?: LaunchOptions) {
+    return IosAppRunnerHelper.installAndLaunch(appPath, packageId, proxyPort, appLaunchStepTimeout, sessionEndCallback, installOptions, launchOptions).catch(defaultError);
+}
+
+export function listDevices(options?: ConnectionOptions) {
+    return IosAppRunnerHelper.listDevices(options).catch(defaultError);
+}
+
+export function listConnectedDevices(options?: ConnectionOptions) {
+    return IosAppRunnerHelper.listConnectedDevices(options).catch(defaultError);
+}
+
+export function getDeviceInfo(udid: string, options?: ConnectionOptions) {
+    return IosAppRunnerHelper.getDeviceInfo(udid, options).catch(defaultError);
+}
+
+export function checkDevice(udid?: string, options?: CheckDeviceOptions) {
+    return IosAppRunnerHelper.checkDevice(udid, options).catch(defaultError);
+}
+
+export function startDebugProxy(proxyPort: number, udid?: string, options?: MountOptions) {
+    return IosAppRunnerHelper.startDebugProxy(proxyPort, udid, options).catch(defaultError);
+}
+
+export function mountDeveloperImage(udid?: string, options?: MountOptions) {
+    return IosAppRunnerHelper.mountDeveloperImage(udid, options).catch(defaultError);
 }
 
-export function startAppViaDebugger(portNumber: number, packagePath: string, appLaunchStepTimeout: number = 5000, sessionEndCallback?: (isCrash: boolean) => void) {
-    return IosAppRunnerHelper.startAppViaDebugger(portNumber, packagePath, appLaunchStepTimeout, sessionEndCallback).catch(defaultError);
+export function startDebugProxyManager(options?: DebugProxyOptions) {
+    return IosAppRunnerHelper.startDebugProxyManager(options).catch(defaultError);
 }
 
-export function startDebugProxy(proxyPort: number) {
-    return IosAppRunnerHelper.startDebugProxy(proxyPort);
+export function stopDebugProxy(udid?: string) {
+    return IosAppRunnerHelper.stopDebugProxy(udid);
 }
\ No newline at end of file
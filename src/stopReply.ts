@@ -0,0 +1,167 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as Q from "q";
+
+import {getSignalName} from "./signals";
+
+// The details debugserver gives in a "T" stop reply packet, which looks like
+// T<signal>thread:<tid>;name:<name>;reason:exception;metype:<type>;medata:<data>;...;<register number>:<value>;...
+// Numbers are hex, and register values are hex bytes in target (little endian) order.
+// Addresses may not fit in a javascript number, so they are given as "0x" prefixed hex strings instead.
+export interface StopInfo {
+    signal: number;
+    signalName: string;
+    thread: number;
+    threadName: string;
+    reason: string;
+    description: string;
+    // The mach exception type (metype) and its codes (medata), e.g. 1 (EXC_BAD_ACCESS) with ["1", "0"]
+    exceptionType: number;
+    exceptionData: string[];
+    // Every register value in the packet, by decimal register number
+    registers: { [register: string]: string };
+    pc: string;
+    sp: string;
+    lr: string;
+    fp: string;
+    // Best-effort return addresses, starting with the pc, if a backtrace was collected
+    backtrace: string[];
+}
+
+// Register numbers used by debugserver for the frame registers, on 64 and 32 bit ARM
+const arm64Registers: { [name: string]: number } = { fp: 29, lr: 30, sp: 31, pc: 32 };
+const armRegisters: { [name: string]: number } = { fp: 7, sp: 13, lr: 14, pc: 15 };
+
+const maxBacktraceFrames: number = 32;
+
+export function parseStopReply(packet: string): StopInfo {
+    if (packet[0] !== "T" && packet[0] !== "S") {
+        return null;
+    }
+
+    const signal: number = parseInt(packet.substring(1, 3), 16);
+    const info: StopInfo = {
+        signal: signal,
+        signalName: getSignalName(signal),
+        thread: null,
+        threadName: null,
+        reason: null,
+        description: null,
+        exceptionType: null,
+        exceptionData: [],
+        registers: {},
+        pc: null,
+        sp: null,
+        lr: null,
+        fp: null,
+        backtrace: []
+    };
+
+    let pointerLength: number = 0;
+    packet.substring(3).split(";").forEach(function(pair: string): void {
+        const separator: number = pair.indexOf(":");
+        if (separator === -1) {
+            return;
+        }
+
+        const key: string = pair.substring(0, separator);
+        const value: string = pair.substring(separator + 1);
+        if (/^[0-9a-fA-F]+$/.test(key)) {
+            info.registers[parseInt(key, 16).toString()] = littleEndianToAddress(value);
+            pointerLength = Math.max(pointerLength, value.length / 2);
+            return;
+        }
+
+        switch (key) {
+            case "thread":
+                info.thread = parseInt(value, 16);
+                break;
+            case "name":
+                info.threadName = value;
+                break;
+            case "hexname":
+                info.threadName = new Buffer(value, "hex").toString("utf8");
+                break;
+            case "reason":
+                info.reason = value;
+                break;
+            case "description":
+                info.description = new Buffer(value, "hex").toString("utf8");
+                break;
+            case "metype":
+                info.exceptionType = parseInt(value, 16);
+                break;
+            case "medata":
+                info.exceptionData.push(value);
+                break;
+        }
+    });
+
+    const frameRegisters: { [name: string]: number } = pointerLength === 4 ? armRegisters : arm64Registers;
+    info.pc = info.registers[frameRegisters["pc"].toString()] || null;
+    info.sp = info.registers[frameRegisters["sp"].toString()] || null;
+    info.lr = info.registers[frameRegisters["lr"].toString()] || null;
+    info.fp = info.registers[frameRegisters["fp"].toString()] || null;
+    return info;
+}
+
+// Ask for the full stop info of the stopped thread, then walk the chain of frame pointers on its stack
+// to find the return address of each frame. query sends a packet and resolves with the reply.
+export function collectBacktrace(stopInfo: StopInfo, query: (command: string) => Q.Promise<string>): Q.Promise<StopInfo> {
+    const threadStopInfo: Q.Promise<StopInfo> = stopInfo.thread === null ? Q(stopInfo) :
+        query("qThreadStopInfo" + stopInfo.thread.toString(16)).then(function(reply: string): StopInfo {
+            const fullInfo: StopInfo = parseStopReply(reply);
+            return fullInfo && fullInfo.pc ? fullInfo : stopInfo;
+        }, function(): StopInfo {
+            return stopInfo;
+        });
+
+    return threadStopInfo.then(function(info: StopInfo): Q.Promise<StopInfo> {
+        if (!info.pc) {
+            return Q(info);
+        }
+
+        const pointerLength: number = (info.pc.length - 2) / 2;
+        const backtrace: string[] = [info.pc];
+        info.backtrace = backtrace;
+
+        function walk(framePointer: string): Q.Promise<StopInfo> {
+            if (!framePointer || isZero(framePointer) || backtrace.length >= maxBacktraceFrames) {
+                return Q(info);
+            }
+
+            // Each frame record holds the caller's frame pointer, followed by the return address
+            return query("m" + framePointer.substring(2).replace(/^0+(?=.)/, "") + "," + (pointerLength * 2).toString(16)).then(function(reply: string): Q.Promise<StopInfo> {
+                if (!/^[0-9a-fA-F]+$/.test(reply) || reply.length !== pointerLength * 4) {
+                    return Q(info);
+                }
+
+                const callerFramePointer: string = littleEndianToAddress(reply.substring(0, pointerLength * 2));
+                const returnAddress: string = littleEndianToAddress(reply.substring(pointerLength * 2));
+                if (isZero(returnAddress)) {
+                    return Q(info);
+                }
+
+                backtrace.push(returnAddress);
+                // The stack grows down, so callers' frames must be at higher addresses; anything else is garbage
+                return callerFramePointer > framePointer ? walk(callerFramePointer) : Q(info);
+            }, function(): StopInfo {
+                return info;
+            });
+        }
+
+        return walk(info.fp);
+    });
+}
+
+function littleEndianToAddress(value: string): string {
+    const bytes: string[] = value.match(/../g) || [];
+    return "0x" + bytes.reverse().join("").toLowerCase();
+}
+
+function isZero(address: string): boolean {
+    return /^0x0*$/.test(address);
+}
@@ -0,0 +1,201 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as child_process from "child_process";
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import * as Q from "q";
+import * as stream from "stream";
+import {runCli} from "../cli";
+import {DebugProxyManager} from "../debugProxyManager";
+import {makeGdbCommand} from "../gdbRemote";
+import {IosAppRunnerHelper} from "../runApp";
+import {SharedState} from "../sharedState";
+import {FakeDebugServer, FakeTools} from "../testing";
+
+describe("Command line", function(): void {
+    const fakeTools: FakeTools = new FakeTools();
+    const port: number = 12348;
+    const installedApps: string = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<array>
+    <dict>
+        <key>CFBundleDisplayName</key><string>Blank</string>
+        <key>CFBundleIdentifier</key><string>com.example.blank</string>
+        <key>CFBundleShortVersionString</key><string>1.2.0</string>
+        <key>Path</key><string>/private/var/containers/Bundle/Application/042F57CA-9717-4655-8349-532093FFCF44/Blank.app</string>
+    </dict>
+</array>
+</plist>
+`;
+
+    before(() => fakeTools.install());
+    after(() => fakeTools.uninstall());
+
+    interface ICapturedOutput {
+        stdout: stream.PassThrough;
+        stderr: stream.PassThrough;
+        text: { stdout: string, stderr: string };
+    }
+
+    function captureOutput(): ICapturedOutput {
+        const captured: ICapturedOutput = { stdout: new stream.PassThrough(), stderr: new stream.PassThrough(), text: { stdout: "", stderr: "" } };
+        captured.stdout.on("data", (data: Buffer) => captured.text.stdout += data.toString());
+        captured.stderr.on("data", (data: Buffer) => captured.text.stderr += data.toString());
+        return captured;
+    }
+
+    // Serve a mock debugger which launches the app, then sends endPacket once the app is running, or drops the connection if it is null
+    function serveDebugger(endPacket: string): void {
+        const mockDebuggerProxy: net.Server = net.createServer(function(client: net.Socket): void {
+            mockDebuggerProxy.close();
+            client.on("data", function(data: Buffer): void {
+                const command: RegExpExecArray = /\$([^#]*)#/.exec(data.toString());
+                if (!command) {
+                    return;
+                }
+
+                client.write("+");
+                if (command[1] === "c") {
+                    client.write(makeGdbCommand("O" + new Buffer("Hello\n").toString("hex")));
+                    setTimeout(() => endPacket === null ? client.destroy() : client.write(makeGdbCommand(endPacket)), 10);
+                } else {
+                    client.write(makeGdbCommand("OK"));
+                }
+            });
+        });
+        mockDebuggerProxy.listen(port);
+    }
+
+    it("should list installed apps as JSON", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", installedApps);
+        const output: ICapturedOutput = captureOutput();
+        return runCli(["list-apps", "--json", "--udid", "00008030-001A2B3C4D5E6F70"], output).then(function(exitCode: number): void {
+            exitCode.should.equal(0);
+            fakeTools.args("ideviceinstaller").should.equal("-u 00008030-001A2B3C4D5E6F70 -l -o list_user -o xml");
+            JSON.parse(output.text.stdout)[0].bundleId.should.equal("com.example.blank");
+        });
+    });
+
+    it("should exit with the app's exit code when waiting for it", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", installedApps);
+        serveDebugger("W03");
+        const output: ICapturedOutput = captureOutput();
+        return runCli(["launch", "com.example.blank", "--port", port.toString(), "--wait", "--json"], output).then(function(exitCode: number): void {
+            exitCode.should.equal(3);
+            output.text.stderr.should.equal("Hello\n");
+            const result: any = JSON.parse(output.text.stdout);
+            result.bundleId.should.equal("com.example.blank");
+            result.result.kind.should.equal("exited");
+        });
+    });
+
+    it("should exit with 128 plus the signal number when the app crashes", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", installedApps);
+        serveDebugger("T0b");
+        const output: ICapturedOutput = captureOutput();
+        return runCli(["launch", "com.example.blank", "--port", port.toString(), "--wait"], output).then(function(exitCode: number): void {
+            exitCode.should.equal(139);
+            output.text.stdout.should.equal("Hello\n");
+            output.text.stderr.should.equal("The app crashed with SIGSEGV\n");
+        });
+    });
+
+    it("should fail when the connection to the debug server drops while waiting", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", installedApps);
+        serveDebugger(null);
+        const output: ICapturedOutput = captureOutput();
+        return Q.timeout(runCli(["launch", "com.example.blank", "--port", port.toString(), "--wait", "--json"], output), 2000).then(function(exitCode: number): void {
+            exitCode.should.equal(1);
+            JSON.parse(output.text.stdout).result.kind.should.equal("disconnected");
+        });
+    });
+
+    it("should report errors with english messages", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinfo", "ERROR: No device found!\n", 1);
+        fakeTools.add("xcrun", "/Applications/Xcode.app/Contents/Developer/Platforms/iPhoneOS.platform\n");
+        const output: ICapturedOutput = captureOutput();
+        return runCli(["mount-image"], output).then(function(exitCode: number): void {
+            exitCode.should.equal(1);
+            output.text.stderr.should.equal("Unable to find device. Is the device plugged in?\n");
+        });
+    });
+
+    it("should reject unknown commands and options", function(): Q.Promise<void> {
+        const output: ICapturedOutput = captureOutput();
+        return runCli(["launch", "com.example.blank", "--bogus"], output).then(function(exitCode: number): Q.Promise<number> {
+            exitCode.should.equal(2);
+            output.text.stderr.should.startWith("Unknown option: --bogus");
+            return runCli(["frobnicate"], captureOutput());
+        }).then(function(exitCode: number): void {
+            exitCode.should.equal(2);
+        });
+    });
+
+    it("should stop the proxy it started when told to stop while waiting", function(): Q.Promise<void> {
+        const udid: string = "00008030-001A2B3C4D5E6F70";
+        const debugServer: FakeDebugServer = new FakeDebugServer();
+        let manager: DebugProxyManager = null;
+        return debugServer.listen().then(function(debugServerPort: number): Q.Promise<number> {
+            fakeTools.addDeviceInfo();
+            fakeTools.addImageMounter(true);
+            fakeTools.addDebugServerProxy(debugServerPort);
+            fakeTools.addInstalledApps([{ bundleId: "com.example.blank", name: "Blank" }]);
+            debugServer.launched.done(function(): void {
+                manager = SharedState.getNativeDebuggerProxyInstance(udid);
+                // As if the process were killed. Emitting SIGINT would abort mocha too.
+                process.emit("SIGTERM", "SIGTERM");
+            });
+            return Q.timeout(runCli(["launch", "com.example.blank", "--udid", udid, "--wait"], captureOutput()), 5000);
+        }).then(function(exitCode: number): void {
+            exitCode.should.equal(143);
+            manager.running.should.be.false();
+        }).finally(function(): void {
+            debugServer.close();
+            IosAppRunnerHelper.invalidateInstalledAppsCache();
+            IosAppRunnerHelper.invalidateDeviceCache();
+        });
+    });
+
+    it("should only stop the process recorded by proxy start", function(): Q.Promise<void> {
+        const recordFile: string = path.join(os.tmpdir(), "idevice-app-launcher-proxy-cli-test.json");
+        // Stands in for "proxy start", listening on the recorded port until it is stopped
+        const script: string = `require("net").createServer().listen(${port}, "127.0.0.1", function() { console.log("ready"); });`;
+        const proxy: child_process.ChildProcess = child_process.spawn(process.execPath, ["-e", script]);
+        const ready: Q.Deferred<void> = Q.defer<void>();
+        const exited: Q.Deferred<string> = Q.defer<string>();
+        proxy.stdout.on("data", () => ready.resolve(null));
+        proxy.on("exit", (code: number, signal: string) => exited.resolve(signal));
+
+        function stop(command: string): Q.Promise<number> {
+            fs.writeFileSync(recordFile, JSON.stringify({ pid: proxy.pid, port: port, command: command }));
+            return runCli(["proxy", "stop", "--udid", "cli-test"], captureOutput());
+        }
+
+        return Q.timeout(ready.promise, 5000).then(function(): Q.Promise<number> {
+            // Another process which has since been given the proxy's pid
+            return stop("/usr/sbin/some-other-daemon");
+        }).then(function(exitCode: number): Q.Promise<number> {
+            exitCode.should.equal(1);
+            exited.promise.isPending().should.be.true();
+            return stop(`${process.execPath} -e ${script}`);
+        }).then(function(exitCode: number): Q.Promise<string> {
+            exitCode.should.equal(0);
+            return Q.timeout(exited.promise, 5000);
+        }).then(function(signal: string): void {
+            signal.should.equal("SIGTERM");
+        }).finally(function(): void {
+            if (exited.promise.isPending()) {
+                proxy.kill();
+            }
+            fs.unlinkSync(recordFile);
+        });
+    });
+});
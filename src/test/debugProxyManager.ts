@@ -0,0 +1,175 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import * as Q from "q";
+import {CancellationToken} from "../cancellation";
+import {DebugProxyManager} from "../debugProxyManager";
+import {IDeviceLaunchError} from "../errors";
+import {setLogger} from "../logger";
+import {FakeTools} from "../testing";
+
+describe("Debug proxy manager", function(): void {
+    this.timeout(10000);
+
+    const fakeTools: FakeTools = new FakeTools();
+    let manager: DebugProxyManager = null;
+
+    before(() => fakeTools.install());
+    after(() => fakeTools.uninstall());
+    afterEach(function(): Q.Promise<void> {
+        const stopped: Q.Promise<void> = manager ? manager.stop() : Q<void>(null);
+        manager = null;
+        return stopped;
+    });
+
+    // A fake idevicedebugserverproxy which starts listening on its port after the given delay
+    function addFakeProxy(listenDelay: number, extraScript: string = ""): void {
+        fakeTools.addScript("idevicedebugserverproxy", `const port = +process.argv[process.argv.length - 1];
+setTimeout(function() {
+    require("net").createServer(function(socket) { socket.end(); }).listen(port, "127.0.0.1");
+}, ${listenDelay});
+${extraScript}
+`);
+    }
+
+    function connect(port: number): Q.Promise<void> {
+        const deferred: Q.Deferred<void> = Q.defer<void>();
+        const socket: net.Socket = net.connect(port, "127.0.0.1", function(): void {
+            socket.end();
+            deferred.resolve(null);
+        });
+        socket.on("error", deferred.reject);
+        return deferred.promise;
+    }
+
+    it("should pick a free port and wait until the proxy accepts connections", function(): Q.Promise<void> {
+        addFakeProxy(500);
+        manager = new DebugProxyManager({ udid: "00008030-001A2B3C4D5E6F70" });
+        return manager.start().then(function(port: number): Q.Promise<void> {
+            port.should.be.above(0);
+            manager.port.should.equal(port);
+            manager.running.should.be.true();
+            fakeTools.args("idevicedebugserverproxy").should.equal("-u 00008030-001A2B3C4D5E6F70 " + port);
+            return connect(port);
+        });
+    });
+
+    it("should report a proxy which exits before accepting connections", function(): Q.Promise<void> {
+        fakeTools.addScript("idevicedebugserverproxy", `process.stderr.write("Could not connect to lockdownd\\n");\nprocess.exit(255);\n`);
+        const messages: string[] = [];
+        setLogger({ debug: (message: string) => null, info: (message: string) => messages.push(message), warn: (message: string) => null, error: (message: string) => null });
+        manager = new DebugProxyManager();
+        return manager.start().then(function(): void {
+            throw new Error("Starting the proxy should have failed!");
+        }, function(err: IDeviceLaunchError): void {
+            err.code.should.equal("IDeviceDebugServerProxyExitedEarly");
+            err.step.should.equal("proxy");
+            err.cause.message.should.equal("The proxy exited with code 255");
+            err.stderr.should.equal("Could not connect to lockdownd\n");
+            manager.running.should.be.false();
+            messages.should.eql([]);
+        }).finally(() => setLogger(null));
+    });
+
+    it("should stop waiting for a proxy which cannot be found", function(): Q.Promise<void> {
+        const originalPath: string = process.env.PATH;
+        process.env.PATH = path.join(os.tmpdir(), "no-such-directory");
+        const started: number = Date.now();
+        let connections: number = 0;
+        let server: net.Server = null;
+        manager = new DebugProxyManager({ readyTimeout: 5000 });
+        return manager.start().then(function(): void {
+            throw new Error("Starting the proxy should have failed!");
+        }, function(err: IDeviceLaunchError): Q.Promise<void> {
+            err.code.should.equal("IDeviceDebugServerProxyNotFound");
+            (Date.now() - started).should.be.below(1000);
+            manager.running.should.be.false();
+            // Nothing should still be probing the port for the proxy
+            server = net.createServer(function(socket: net.Socket): void {
+                connections++;
+                socket.end();
+            }).listen(manager.port, "127.0.0.1");
+            return Q.delay(500).then(function(): void {
+                connections.should.equal(0);
+            });
+        }).finally(function(): void {
+            process.env.PATH = originalPath;
+            if (server) {
+                server.close();
+            }
+        });
+    });
+
+    it("should give up on a proxy which never accepts connections", function(): Q.Promise<void> {
+        addFakeProxy(60000);
+        manager = new DebugProxyManager({ readyTimeout: 500 });
+        return manager.start().then(function(): void {
+            throw new Error("Starting the proxy should have failed!");
+        }, function(err: IDeviceLaunchError): void {
+            err.code.should.equal("DebugProxyNotReady");
+            manager.running.should.be.false();
+        });
+    });
+
+    it("should stop a proxy which is cancelled before accepting connections", function(): Q.Promise<void> {
+        addFakeProxy(60000);
+        let cancel: () => void = null;
+        const token: CancellationToken = {
+            isCancellationRequested: false,
+            onCancellationRequested: function(listener: () => void): { dispose(): void } {
+                cancel = listener;
+                return { dispose: () => cancel = null };
+            }
+        };
+        manager = new DebugProxyManager({ cancellationToken: token });
+        setTimeout(() => cancel(), 300);
+        return manager.start().then(function(): void {
+            throw new Error("Starting the proxy should have failed!");
+        }, function(err: IDeviceLaunchError): void {
+            err.code.should.equal("Cancelled");
+            manager.running.should.be.false();
+            (cancel === null).should.be.true();
+        });
+    });
+
+    it("should restart a proxy which exits unexpectedly", function(): Q.Promise<void> {
+        addFakeProxy(0);
+        manager = new DebugProxyManager({ autoRestart: true });
+        const exited: Q.Deferred<string> = Q.defer<string>();
+        const restarted: Q.Deferred<number> = Q.defer<number>();
+        manager.on("exit", (code: number, signal: string) => exited.resolve(signal));
+        manager.on("restarted", (port: number) => restarted.resolve(port));
+
+        return manager.start().then(function(port: number): Q.Promise<void> {
+            manager.process.kill("SIGTERM");
+            return exited.promise.then(function(signal: string): Q.Promise<number> {
+                signal.should.equal("SIGTERM");
+                return restarted.promise;
+            }).then(function(restartedPort: number): Q.Promise<void> {
+                restartedPort.should.equal(port);
+                return connect(port);
+            });
+        });
+    });
+
+    it("should kill a proxy which ignores SIGHUP", function(): Q.Promise<void> {
+        addFakeProxy(0, `process.on("SIGHUP", function() {});`);
+        manager = new DebugProxyManager({ killTimeout: 200 });
+        let exitReported: boolean = false;
+        manager.on("exit", () => exitReported = true);
+
+        return manager.start().then(function(): Q.Promise<void> {
+            return manager.stop();
+        }).then(function(): void {
+            manager.running.should.be.false();
+            exitReported.should.be.false();
+        });
+    });
+});
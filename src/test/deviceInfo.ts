@@ -0,0 +1,106 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as Q from "q";
+import {ConnectedDevice} from "../connection";
+import {IDeviceLaunchError} from "../errors";
+import {DeviceInfo, IosAppRunnerHelper} from "../runApp";
+import {FakeTools} from "../testing";
+
+describe("Device discovery", function(): void {
+    const fakeTools: FakeTools = new FakeTools();
+
+    before(() => fakeTools.install());
+    after(() => fakeTools.uninstall());
+
+    it("should list attached devices", function(): Q.Promise<void> {
+        fakeTools.add("idevice_id", "00008030-001A2B3C4D5E6F70\n6c8d1a2bd7a7f3e5c3a0e3c1b7a2d4e5f6a7b8c9\n\n");
+        return IosAppRunnerHelper.listDevices().then(function(devices: string[]): void {
+            devices.should.eql(["00008030-001A2B3C4D5E6F70", "6c8d1a2bd7a7f3e5c3a0e3c1b7a2d4e5f6a7b8c9"]);
+        });
+    });
+
+    it("should parse device info", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinfo", `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+    <key>BuildVersion</key><string>15E148</string>
+    <key>CPUArchitecture</key><string>arm64</string>
+    <key>DeviceName</key><string>Test iPhone</string>
+    <key>PasswordProtected</key><true/>
+    <key>ProductType</key><string>iPhone10,3</string>
+    <key>ProductVersion</key><string>11.3</string>
+    <key>UniqueDeviceID</key><string>00008030-001A2B3C4D5E6F70</string>
+</dict>
+</plist>
+`);
+        return IosAppRunnerHelper.getDeviceInfo("00008030-001A2B3C4D5E6F70").then(function(info: DeviceInfo): void {
+            fakeTools.args("ideviceinfo").should.equal("-u 00008030-001A2B3C4D5E6F70 -x");
+            info.udid.should.equal("00008030-001A2B3C4D5E6F70");
+            info.name.should.equal("Test iPhone");
+            info.model.should.equal("iPhone10,3");
+            info.productVersion.should.equal("11.3");
+            info.buildVersion.should.equal("15E148");
+            info.cpuArchitecture.should.equal("arm64");
+            info.passwordProtected.should.be.true();
+        });
+    });
+
+    it("should reject device ids which are not UDIDs", function(): Q.Promise<void> {
+        return IosAppRunnerHelper.getDeviceInfo("$(reboot)").then(function(): void {
+            throw new Error("Getting device info should have failed!");
+        }, function(err: Error): void {
+            err.message.should.equal("InvalidDeviceId");
+        });
+    });
+
+    it("should report how each device is connected", function(): Q.Promise<void> {
+        fakeTools.add("idevice_id", "00008030-001A2B3C4D5E6F70 (USB)\n6c8d1a2bd7a7f3e5c3a0e3c1b7a2d4e5f6a7b8c9 (Network)\n00008030-001A2B3C4D5E6F70 (Network)\n");
+        return IosAppRunnerHelper.listConnectedDevices({ connection: "any" }).then(function(devices: ConnectedDevice[]): Q.Promise<string[]> {
+            fakeTools.args("idevice_id").should.equal("-l -n");
+            devices.should.eql([
+                { udid: "00008030-001A2B3C4D5E6F70", connection: "usb" },
+                { udid: "6c8d1a2bd7a7f3e5c3a0e3c1b7a2d4e5f6a7b8c9", connection: "network" },
+                { udid: "00008030-001A2B3C4D5E6F70", connection: "network" }
+            ]);
+            return IosAppRunnerHelper.listDevices({ connection: "any" });
+        }).then(function(udids: string[]): void {
+            udids.should.eql(["00008030-001A2B3C4D5E6F70", "6c8d1a2bd7a7f3e5c3a0e3c1b7a2d4e5f6a7b8c9"]);
+        });
+    });
+
+    it("should reach devices on the network", function(): Q.Promise<void> {
+        fakeTools.addDeviceInfo();
+        fakeTools.add("idevice_id", "6c8d1a2bd7a7f3e5c3a0e3c1b7a2d4e5f6a7b8c9 (Network)\n00008030-001A2B3C4D5E6F70 (USB)\n");
+        return IosAppRunnerHelper.getDeviceInfo("00008030-001A2B3C4D5E6F70", { connection: "network" }).then(function(): Q.Promise<DeviceInfo> {
+            fakeTools.args("ideviceinfo").should.equal("-u 00008030-001A2B3C4D5E6F70 -n -x");
+            return IosAppRunnerHelper.getDeviceInfo("6c8d1a2bd7a7f3e5c3a0e3c1b7a2d4e5f6a7b8c9", { connection: "any" });
+        }).then(function(): Q.Promise<DeviceInfo> {
+            fakeTools.args("ideviceinfo").should.equal("-u 6c8d1a2bd7a7f3e5c3a0e3c1b7a2d4e5f6a7b8c9 -n -x");
+            return IosAppRunnerHelper.getDeviceInfo("00008030-001A2B3C4D5E6F70", { connection: "any" });
+        }).then(function(): void {
+            fakeTools.args("ideviceinfo").should.equal("-u 00008030-001A2B3C4D5E6F70 -x");
+        });
+    });
+
+    it("should tell devices missing from the network from devices not plugged in", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", "No device found.\n", 1);
+        fakeTools.add("idevice_id", "");
+        return IosAppRunnerHelper.installApp("/tmp/Blank.ipa", { connection: "network" }).then(function(): DeviceInfo {
+            throw new Error("Installing should have failed!");
+        }, function(err: IDeviceLaunchError): Q.Promise<DeviceInfo> {
+            err.code.should.equal("NoNetworkDeviceFound");
+            fakeTools.args("ideviceinstaller").should.equal("-n -i /tmp/Blank.ipa");
+            return IosAppRunnerHelper.getDeviceInfo("00008030-001A2B3C4D5E6F70", { connection: "any" });
+        }).then(function(): void {
+            throw new Error("Getting device info should have failed!");
+        }, function(err: IDeviceLaunchError): void {
+            err.code.should.equal("NoDeviceFound");
+        });
+    });
+});
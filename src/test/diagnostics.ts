@@ -0,0 +1,114 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as Q from "q";
+import {DebugSession} from "../debugSession";
+import {Diagnostics} from "../diagnostics";
+import {IosAppRunnerHelper, LaunchOptions} from "../runApp";
+import {FakeDebugServer, FakeTools} from "../testing";
+
+describe("Diagnostics", function(): void {
+    const fakeTools: FakeTools = new FakeTools();
+    const udid: string = "00008030-001A2B3C4D5E6F70";
+    const directory: string = path.join(os.tmpdir(), "idevice-app-launcher-diagnostics-" + process.pid);
+    let debugServer: FakeDebugServer;
+
+    before(function(): void {
+        fakeTools.install();
+        fakeTools.addInstalledApps([{ bundleId: "com.example.blank", name: "Blank" }]);
+        fakeTools.addSyslog([
+            "Oct 19 10:00:00 iPhone Blank(UIKitCore)[1234] <Notice>: Launching",
+            "Oct 19 10:00:00 iPhone SpringBoard[57] <Notice>: Not from the app",
+            "Oct 19 10:00:01 iPhone Blank[1234] <Error>: Something went wrong"
+        ]);
+        fakeTools.addCrashReports({
+            "Blank-2026-10-19-100001.ips": "Exception Type: EXC_BAD_ACCESS (SIGSEGV)",
+            "SpringBoard-2026-10-19-100001.ips": "Not from the app"
+        });
+    });
+    after(() => fakeTools.uninstall());
+    afterEach(function(): void {
+        debugServer.close();
+        if (fs.existsSync(directory)) {
+            fs.readdirSync(directory).forEach((name: string) => fs.unlinkSync(path.join(directory, name)));
+            fs.rmdirSync(directory);
+        }
+    });
+
+    // Launch the app with diagnostics written to the output directory, and end the session with end once idevicesyslog has had time to print its log
+    function launch(end: (server: FakeDebugServer) => void, output: string = directory): Q.Promise<Diagnostics> {
+        debugServer = new FakeDebugServer();
+        const launchOptions: LaunchOptions = { diagnostics: { directory: output, crashReportDelay: 0 } };
+        return debugServer.listen().then(function(port: number): Q.Promise<DebugSession> {
+            return IosAppRunnerHelper.startApp("com.example.blank", port, 1000, null, udid, launchOptions);
+        }).then(function(session: DebugSession): Q.Promise<Diagnostics> {
+            return Q.delay(1000).then(function(): Q.Promise<Diagnostics> {
+                end(debugServer);
+                return Q.timeout(session.diagnostics, 5000);
+            });
+        });
+    }
+
+    it("should collect the app's log and crash reports when it crashes", function(): Q.Promise<void> {
+        this.timeout(10000);
+        return launch((server: FakeDebugServer) => server.crash(11)).then(function(diagnostics: Diagnostics): void {
+            fs.readFileSync(diagnostics.syslogFile, "utf8").should.equal(
+                "Oct 19 10:00:00 iPhone Blank(UIKitCore)[1234] <Notice>: Launching\n" +
+                "Oct 19 10:00:01 iPhone Blank[1234] <Error>: Something went wrong\n");
+            diagnostics.crashReports.should.eql([path.join(directory, "Blank-2026-10-19-100001.ips")]);
+            fs.readdirSync(directory).sort().should.eql(["Blank-2026-10-19-100001.ips", "session.json", "syslog.txt"]);
+            fakeTools.args("idevicecrashreport").should.equal(`-u ${udid} -k -e ${path.join(directory, ".crashreports")}`);
+
+            const details: any = JSON.parse(fs.readFileSync(diagnostics.sessionFile, "utf8"));
+            details.bundleId.should.equal("com.example.blank");
+            details.pid.should.equal(1234);
+            details.endInfo.kind.should.equal("stopped");
+            details.endInfo.signalName.should.equal("SIGSEGV");
+        });
+    });
+
+    it("should create the directory and its parents", function(): Q.Promise<void> {
+        this.timeout(10000);
+        const nested: string = path.join(directory, "runs", "1");
+        return launch((server: FakeDebugServer) => server.exit(0), nested).then(function(diagnostics: Diagnostics): void {
+            diagnostics.directory.should.equal(nested);
+            fs.readdirSync(nested).sort().should.eql(["session.json", "syslog.txt"]);
+            fs.readdirSync(nested).forEach((name: string) => fs.unlinkSync(path.join(nested, name)));
+            fs.rmdirSync(nested);
+            fs.rmdirSync(path.dirname(nested));
+        });
+    });
+
+    it("should record the pid of an app which exits straight away", function(): Q.Promise<void> {
+        this.timeout(10000);
+        debugServer = new FakeDebugServer();
+        debugServer.launched.done(() => debugServer.exit(3));
+        const launchOptions: LaunchOptions = { diagnostics: { directory: directory, crashReportDelay: 0 } };
+        return debugServer.listen().then(function(port: number): Q.Promise<DebugSession> {
+            return IosAppRunnerHelper.startApp("com.example.blank", port, 1000, null, udid, launchOptions);
+        }).then(function(session: DebugSession): Q.Promise<Diagnostics> {
+            return Q.timeout(session.diagnostics, 5000);
+        }).then(function(diagnostics: Diagnostics): void {
+            const details: any = JSON.parse(fs.readFileSync(diagnostics.sessionFile, "utf8"));
+            details.pid.should.equal(1234);
+            details.processInfo.pid.should.equal(1234);
+            details.endInfo.exitCode.should.equal(3);
+        });
+    });
+
+    it("should not fetch crash reports when the app exits normally", function(): Q.Promise<void> {
+        this.timeout(10000);
+        return launch((server: FakeDebugServer) => server.exit(0)).then(function(diagnostics: Diagnostics): void {
+            diagnostics.crashReports.should.eql([]);
+            fs.readFileSync(diagnostics.syslogFile, "utf8").split("\n").length.should.equal(3);
+            JSON.parse(fs.readFileSync(diagnostics.sessionFile, "utf8")).endInfo.exitCode.should.equal(0);
+        });
+    });
+});
@@ -0,0 +1,144 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as Q from "q";
+import {DiskImage, findDiskImage, isDiskImageMounted} from "../diskImage";
+import {IDeviceLaunchError} from "../errors";
+import {IosAppRunnerHelper} from "../runApp";
+import {FakeTools} from "../testing";
+
+describe("Developer disk images", function(): void {
+    const fakeTools: FakeTools = new FakeTools();
+    const root: string = path.join(os.tmpdir(), "idevice-app-launcher-images-" + process.pid);
+    // Laid out as Xcode does, in iPhoneOS.platform/DeviceSupport
+    const platformPath: string = path.join(root, "iPhoneOS.platform");
+    // A bare directory of images, as copied to a machine without Xcode
+    const extraPath: string = path.join(root, "images");
+
+    function mountStatus(signatures: string[]): string {
+        return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+    <key>ImageSignature</key>
+    <array>${signatures.map((signature: string) => "<data>" + signature + "</data>").join("")}</array>
+    <key>Status</key>
+    <string>Complete</string>
+</dict>
+</plist>
+`;
+    }
+
+    function addImage(directory: string, signed: boolean = true): void {
+        fs.mkdirSync(directory);
+        fs.writeFileSync(path.join(directory, "DeveloperDiskImage.dmg"), "");
+        if (signed) {
+            fs.writeFileSync(path.join(directory, "DeveloperDiskImage.dmg.signature"), "");
+        }
+    }
+
+    function removeTree(directory: string): void {
+        fs.readdirSync(directory).forEach(function(name: string): void {
+            const file: string = path.join(directory, name);
+            if (fs.statSync(file).isDirectory()) {
+                removeTree(file);
+            } else {
+                fs.unlinkSync(file);
+            }
+        });
+        fs.rmdirSync(directory);
+    }
+
+    function findError(version: string, searchPaths: string[]): IDeviceLaunchError {
+        try {
+            findDiskImage(version, {}, searchPaths);
+        } catch (e) {
+            return e;
+        }
+        throw new Error("Finding the image should have failed!");
+    }
+
+    before(function(): void {
+        fakeTools.install();
+        fs.mkdirSync(root);
+        fs.mkdirSync(platformPath);
+        fs.mkdirSync(path.join(platformPath, "DeviceSupport"));
+        ["1.1", "11.0", "11.1 (15B93)", "12.0"].forEach((version: string) => addImage(path.join(platformPath, "DeviceSupport", version)));
+        addImage(path.join(platformPath, "DeviceSupport", "10.3"), false);
+        fs.mkdirSync(extraPath);
+        addImage(path.join(extraPath, "11.0"));
+    });
+
+    after(function(): void {
+        fakeTools.uninstall();
+        removeTree(root);
+    });
+    afterEach(() => IosAppRunnerHelper.invalidateDeviceCache());
+
+    it("should find the image for the device's major and minor version", function(): void {
+        const image: DiskImage = findDiskImage("11.1.2", {}, [platformPath]);
+        image.version.should.equal("11.1 (15B93)");
+        image.imagePath.should.equal(path.join(platformPath, "DeviceSupport", "11.1 (15B93)", "DeveloperDiskImage.dmg"));
+        image.signaturePath.should.equal(image.imagePath + ".signature");
+        findDiskImage("1.1", {}, [platformPath]).version.should.equal("1.1");
+    });
+
+    it("should fall back to the closest earlier version", function(): void {
+        findDiskImage("11.4", {}, [platformPath]).version.should.equal("11.1 (15B93)");
+        findError("1.0", [platformPath]).code.should.equal("FailedFindDeveloperDiskImage");
+    });
+
+    it("should search the given directories before Xcode's", function(): void {
+        findDiskImage("11.0", {}, [extraPath, platformPath]).imagePath.should.equal(path.join(extraPath, "11.0", "DeveloperDiskImage.dmg"));
+        findDiskImage("11.0", {}, [platformPath, extraPath]).imagePath.should.equal(path.join(platformPath, "DeviceSupport", "11.0", "DeveloperDiskImage.dmg"));
+    });
+
+    it("should require a signature beside the image", function(): void {
+        findError("10.3", [platformPath]).code.should.equal("DeveloperDiskImageSignatureMissing");
+        const imagePath: string = path.join(platformPath, "DeviceSupport", "10.3", "DeveloperDiskImage.dmg");
+        const signaturePath: string = path.join(extraPath, "11.0", "DeveloperDiskImage.dmg.signature");
+        findDiskImage(null, { diskImagePath: imagePath, diskImageSignaturePath: signaturePath }, []).signaturePath.should.equal(signaturePath);
+    });
+
+    it("should recognize whether an image is mounted", function(): void {
+        isDiskImageMounted(mountStatus([])).should.be.false();
+        isDiskImageMounted(mountStatus(["3q2+7w=="])).should.be.true();
+        isDiskImageMounted("ERROR: Could not connect to lockdownd\n").should.be.false();
+    });
+
+    it("should mount the image found without Xcode", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinfo", "11.1.2\n");
+        fakeTools.add("xcrun", "xcrun: error: unable to find utility\n", 1);
+        fakeTools.addScript("ideviceimagemounter", `if (process.argv.indexOf("-l") !== -1) { console.log(${JSON.stringify(mountStatus([]))}); }\n`);
+        return IosAppRunnerHelper.mountDeveloperImage("00008030-001A2B3C4D5E6F70", { diskImageSearchPaths: [extraPath] }).then(function(): void {
+            const imagePath: string = path.join(extraPath, "11.0", "DeveloperDiskImage.dmg");
+            fakeTools.args("ideviceimagemounter").should.equal(`-u 00008030-001A2B3C4D5E6F70 ${imagePath} ${imagePath}.signature`);
+        });
+    });
+
+    it("should report a device on the network which cannot be found", function(): Q.Promise<void> {
+        fakeTools.add("ideviceimagemounter", mountStatus([]));
+        fakeTools.add("ideviceinfo", "ERROR: No device found with udid 00008030-001A2B3C4D5E6F70, is it plugged in?\n", 1);
+        return IosAppRunnerHelper.mountDeveloperImage("00008030-001A2B3C4D5E6F70", { connection: "network", diskImageSearchPaths: [extraPath] }).then(function(): void {
+            throw new Error("Mounting the image should have failed!");
+        }, function(err: IDeviceLaunchError): void {
+            err.code.should.equal("NoNetworkDeviceFound");
+            err.step.should.equal("mount");
+            fakeTools.args("ideviceinfo").should.equal("-u 00008030-001A2B3C4D5E6F70 -n -s -k ProductVersion");
+        });
+    });
+
+    it("should not mount an image when one is already mounted", function(): Q.Promise<void> {
+        fakeTools.add("ideviceimagemounter", mountStatus(["3q2+7w=="]));
+        return IosAppRunnerHelper.mountDeveloperImage(null, { diskImagePath: "/missing/DeveloperDiskImage.dmg" }).then(function(): void {
+            fakeTools.args("ideviceimagemounter").should.equal("-l -x");
+        });
+    });
+});
@@ -0,0 +1,113 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import {GdbPacketReader, GdbPacketWriter, decodeBody, escapeBody, makeGdbCommand} from "../gdbRemote";
+
+describe("GDB remote packets", function(): void {
+    function collect(reader: GdbPacketReader): string[] {
+        const events: string[] = [];
+        reader.on("packet", (packet: string) => events.push("packet:" + packet));
+        reader.on("invalidPacket", (body: string) => events.push("invalid:" + body));
+        reader.on("ack", () => events.push("+"));
+        reader.on("nack", () => events.push("-"));
+        return events;
+    }
+
+    it("should make commands with checksums", function(): void {
+        makeGdbCommand("Hc0").should.equal("$Hc0#DB");
+        makeGdbCommand("OK").should.equal("$OK#9A");
+        makeGdbCommand("").should.equal("$#00");
+    });
+
+    it("should escape and decode framing characters", function(): void {
+        const raw: string = "a$b#c}d*e";
+        escapeBody(raw).should.equal("a}\x04b}\x03c}]d}\x0Ae");
+        decodeBody(escapeBody(raw)).should.equal(raw);
+        makeGdbCommand("$").should.equal("$}\x04#81");
+    });
+
+    it("should expand run-length encoding", function(): void {
+        // ' ' is 32, so repeat the previous character 3 more times
+        decodeBody("0* ").should.equal("0000");
+        decodeBody("X}]* ").should.equal("X}}}}");
+    });
+
+    it("should read packets fed one byte at a time", function(): void {
+        const reader: GdbPacketReader = new GdbPacketReader();
+        const events: string[] = collect(reader);
+        "+$OK#9A$W00#B7".split("").forEach((char: string) => reader.push(char));
+        events.should.eql(["+", "packet:OK", "packet:W00"]);
+    });
+
+    it("should read packets coalesced into one chunk", function(): void {
+        const reader: GdbPacketReader = new GdbPacketReader();
+        const events: string[] = collect(reader);
+        reader.push(new Buffer("++$OK#9a-$O#4F$T91#00"));
+        events.should.eql(["+", "+", "packet:OK", "-", "packet:O", "invalid:T91"]);
+    });
+
+    it("should send and read payloads as UTF-8", function(): void {
+        const packet: Buffer = new Buffer(makeGdbCommand("café"), "binary");
+        packet.toString("utf8").should.equal("$café#96");
+
+        // Split the packet inside the two bytes of 'é'
+        const reader: GdbPacketReader = new GdbPacketReader();
+        const events: string[] = collect(reader);
+        reader.push(packet.slice(0, 5));
+        reader.push(packet.slice(5));
+        events.should.eql(["packet:café"]);
+
+        const encodings: string[] = [];
+        const writer: GdbPacketWriter = new GdbPacketWriter({ write: (data: string, encoding: string) => encodings.push(encoding) });
+        writer.send("café");
+        writer.ack();
+        encodings.should.eql(["binary", "binary"]);
+    });
+
+    it("should retransmit rejected packets and queue packets until acknowledged", function(): void {
+        const written: string[] = [];
+        const writer: GdbPacketWriter = new GdbPacketWriter({ write: (data: string) => written.push(data) }, 1);
+        writer.send("Hc0");
+        writer.send("c");
+        written.should.eql(["$Hc0#DB"]);
+        writer.handleNack().should.be.true();
+        written.should.eql(["$Hc0#DB", "$Hc0#DB"]);
+        writer.handleNack().should.be.false();
+        writer.handleAck();
+        written.should.eql(["$Hc0#DB", "$Hc0#DB", "$c#63"]);
+    });
+
+    it("should ignore rejections with nothing to retransmit", function(): void {
+        const written: string[] = [];
+        const writer: GdbPacketWriter = new GdbPacketWriter({ write: (data: string) => written.push(data) }, 1);
+        // Nothing has been sent yet
+        writer.handleNack().should.be.true();
+        writer.send("Hc0");
+        writer.handleAck();
+        // A late rejection after the packet was acknowledged
+        writer.handleNack().should.be.true();
+        written.should.eql(["$Hc0#DB"]);
+
+        writer.disableAcks();
+        writer.send("c");
+        writer.handleNack().should.be.true();
+        writer.handleNack().should.be.true();
+        written.should.eql(["$Hc0#DB", "$c#63"]);
+    });
+
+    it("should send packets straight away once acknowledgements are off", function(): void {
+        const written: string[] = [];
+        const writer: GdbPacketWriter = new GdbPacketWriter({ write: (data: string) => written.push(data) });
+        writer.send("QStartNoAckMode");
+        writer.send("Hc0");
+        writer.disableAcks();
+        writer.send("c");
+        writer.ack();
+        writer.nack();
+        written.should.eql(["$QStartNoAckMode#B0", "$Hc0#DB", "$c#63"]);
+    });
+});
@@ -0,0 +1,74 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as Q from "q";
+import {InstallProgress, IosAppRunnerHelper} from "../runApp";
+import {FakeTools} from "../testing";
+
+describe("App installation", function(): void {
+    const fakeTools: FakeTools = new FakeTools();
+
+    before(() => fakeTools.install());
+    after(() => fakeTools.uninstall());
+
+    it("should report installation progress", function(): Q.Promise<void> {
+        const progress: InstallProgress[] = [];
+        fakeTools.add("ideviceinstaller", "Uploading BlankCordovaApp1.ipa package contents... DONE.\n" +
+            "Installing 'com.example.blank'\n" +
+            "Install: CreatingStagingDirectory (5%)\n" +
+            "Install: CopyingApplication (40%)\n" +
+            "Install: Complete\n");
+        return IosAppRunnerHelper.installApp("/tmp/BlankCordovaApp1.ipa", {
+            udid: "00008030-001A2B3C4D5E6F70",
+            progressCallback: (update: InstallProgress) => progress.push(update)
+        }).then(function(): void {
+            fakeTools.args("ideviceinstaller").should.equal("-u 00008030-001A2B3C4D5E6F70 -i /tmp/BlankCordovaApp1.ipa");
+            progress.should.eql([
+                { status: "CreatingStagingDirectory", percent: 5 },
+                { status: "CopyingApplication", percent: 40 },
+                { status: "Complete", percent: null }
+            ]);
+        });
+    });
+
+    it("should not mistake an app named after errors for a failure", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", "Uploading ErrorReporter.ipa package contents... DONE.\n" +
+            "Installing 'com.acme.ErrorReporter'\n" +
+            "Install: CopyingApplication (40%)\n" +
+            "Install: Complete\n");
+        return IosAppRunnerHelper.installApp("/tmp/ErrorReporter.ipa");
+    });
+
+    it("should report provisioning failures", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", "Install: VerifyingApplication (40%)\n" +
+            "ERROR: Install failed. Got error \"ApplicationVerificationFailed\" with code 0xe8008015: " +
+            "Failed to verify code signature of /private/var/installd/Library/Caches/com.apple.mobile.installd.staging/temp.Rsw9rT/extracted/Payload/BlankCordovaApp1.app : " +
+            "0xe8008015 (A valid provisioning profile for this executable was not found.)\n");
+        return IosAppRunnerHelper.installApp("/tmp/BlankCordovaApp1.ipa").then(function(): void {
+            throw new Error("Installing the app should have failed!");
+        }, function(err: Error): void {
+            err.message.should.equal("AppProvisioningProfileInvalid");
+        });
+    });
+
+    it("should report code signing failures", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", "ERROR: Install failed. Got error \"ApplicationVerificationFailed\" with code 0xe8008018: " +
+            "The identity used to sign the executable is no longer valid.\n", 1);
+        return IosAppRunnerHelper.installApp("/tmp/BlankCordovaApp1.app").then(function(): void {
+            throw new Error("Installing the app should have failed!");
+        }, function(err: Error): void {
+            err.message.should.equal("AppSignatureInvalid");
+        });
+    });
+
+    it("should uninstall apps", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", "Uninstalling 'com.example.blank'\nUninstall: RemovingApplication (50%)\nUninstall: Complete\n");
+        return IosAppRunnerHelper.uninstallApp("com.example.blank").then(function(): void {
+            fakeTools.args("ideviceinstaller").should.equal("-U com.example.blank");
+        });
+    });
+});
@@ -0,0 +1,132 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as net from "net";
+import * as Q from "q";
+import {DebugSession} from "../debugSession";
+import {IDeviceLaunchError} from "../errors";
+import {makeGdbCommand} from "../gdbRemote";
+import {AppInfo, IosAppRunnerHelper} from "../runApp";
+import {FakeTools} from "../testing";
+
+describe("Installed apps", function(): void {
+    const fakeTools: FakeTools = new FakeTools();
+    const port: number = 12346;
+    const installedApps: string = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<array>
+    <dict>
+        <key>ApplicationType</key><string>User</string>
+        <key>CFBundleDisplayName</key><string>Blank</string>
+        <key>CFBundleIdentifier</key><string>com.example.blank</string>
+        <key>CFBundleShortVersionString</key><string>1.2.0</string>
+        <key>CFBundleVersion</key><string>42</string>
+        <key>Path</key><string>/private/var/containers/Bundle/Application/042F57CA-9717-4655-8349-532093FFCF44/Blank.app</string>
+    </dict>
+    <dict>
+        <key>ApplicationType</key><string>System</string>
+        <key>CFBundleIdentifier</key><string>com.apple.mobilesafari</string>
+        <key>CFBundleName</key><string>Safari</string>
+        <key>CFBundleShortVersionString</key><string>11.0</string>
+        <key>CFBundleVersion</key><string>604.1</string>
+        <key>Path</key><string>/Applications/MobileSafari.app</string>
+    </dict>
+</array>
+</plist>
+`;
+
+    before(() => fakeTools.install());
+    after(() => fakeTools.uninstall());
+    afterEach(() => IosAppRunnerHelper.invalidateInstalledAppsCache());
+
+    it("should list installed apps", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", installedApps);
+        return IosAppRunnerHelper.listInstalledApps({ udid: "00008030-001A2B3C4D5E6F70", includeSystemApps: true }).then(function(apps: AppInfo[]): void {
+            fakeTools.args("ideviceinstaller").should.equal("-u 00008030-001A2B3C4D5E6F70 -l -o list_all -o xml");
+            apps.should.eql([{
+                bundleId: "com.example.blank",
+                name: "Blank",
+                version: "1.2.0",
+                buildVersion: "42",
+                path: "/private/var/containers/Bundle/Application/042F57CA-9717-4655-8349-532093FFCF44/Blank.app",
+                isSystemApp: false
+            }, {
+                bundleId: "com.apple.mobilesafari",
+                name: "Safari",
+                version: "11.0",
+                buildVersion: "604.1",
+                path: "/Applications/MobileSafari.app",
+                isSystemApp: true
+            }]);
+        });
+    });
+
+    it("should report apps which are not installed", function(): Q.Promise<void> {
+        fakeTools.add("ideviceinstaller", installedApps);
+        return IosAppRunnerHelper.startApp("com.example.missing", port, 1000).then(function(): void {
+            throw new Error("Starting the app should have failed!");
+        }, function(err: Error): void {
+            err.message.should.equal("PackageNotInstalled");
+        });
+    });
+
+    it("should reuse cached app paths when asked to", function(): Q.Promise<void> {
+        // A debugger which accepts every command
+        const mockDebuggerProxy: net.Server = net.createServer(function(client: net.Socket): void {
+            mockDebuggerProxy.close();
+            client.on("data", function(data: Buffer): void {
+                if (data.toString().indexOf("$") !== -1) {
+                    client.write("+$OK#9A");
+                }
+            });
+        });
+        mockDebuggerProxy.listen(port);
+
+        fakeTools.add("ideviceinstaller", installedApps);
+        return IosAppRunnerHelper.listInstalledApps().then(function(): Q.Promise<DebugSession> {
+            // Listing the apps again would now fail
+            fakeTools.add("ideviceinstaller", "", 1);
+            return IosAppRunnerHelper.startApp("com.example.blank", port, 1000, null, null, { cacheAppPath: true });
+        }).then(function(session: DebugSession): Q.Promise<void> {
+            session.socket.end();
+            IosAppRunnerHelper.invalidateInstalledAppsCache();
+            return IosAppRunnerHelper.startApp("com.example.blank", port, 1000, null, null, { cacheAppPath: true }).then(function(): void {
+                throw new Error("Starting the app should have listed the installed apps again!");
+            }, function(err: IDeviceLaunchError): void {
+                err.code.should.equal("WrongInstalledAppsFile");
+                err.step.should.equal("list");
+                err.cause.exitCode.should.equal(1);
+            });
+        });
+    });
+
+    it("should attach to an installed app by the name of its bundle", function(): Q.Promise<void> {
+        let attachCommand: string = null;
+        const mockDebuggerProxy: net.Server = net.createServer(function(client: net.Socket): void {
+            mockDebuggerProxy.close();
+            client.on("data", function(data: Buffer): void {
+                const command: RegExpExecArray = /\$([^#]*)#/.exec(data.toString());
+                if (command && command[1].indexOf("vAttach") === 0) {
+                    attachCommand = command[1];
+                    client.write("+" + makeGdbCommand("T11thread:1f03;"));
+                } else if (command) {
+                    // An empty reply, as from a debug server which does not support qProcessInfo
+                    client.write("+" + makeGdbCommand(""));
+                }
+            });
+        });
+        mockDebuggerProxy.listen(port);
+
+        fakeTools.add("ideviceinstaller", installedApps);
+        return IosAppRunnerHelper.attachToApp({ bundleId: "com.example.blank" }, port, 1000).then(function(session: DebugSession): void {
+            session.socket.end();
+            (session.pid === null).should.be.true();
+            attachCommand.should.equal("vAttachName;" + IosAppRunnerHelper.encodePath("Blank"));
+        });
+    });
+});
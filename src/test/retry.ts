@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as Q from "q";
+import {DebugSession} from "../debugSession";
+import {IDeviceLaunchError} from "../errors";
+import {DeviceInfo, IosAppRunnerHelper, LaunchOptions} from "../runApp";
+import {FakeDebugServer, FakeTools} from "../testing";
+
+describe("Device checks and launch retries", function(): void {
+    const fakeTools: FakeTools = new FakeTools();
+    const udid: string = "00008030-001A2B3C4D5E6F70";
+    const locked: string = "EThe request was denied by service delegate (SBMainWorkspace) for reason: Locked.";
+    let debugServer: FakeDebugServer;
+    // How many launches the last call to launch attempted, including any which failed
+    let launches: number = 0;
+
+    before(() => fakeTools.install());
+    after(() => fakeTools.uninstall());
+    beforeEach(function(): void {
+        fakeTools.add("idevicepair", `SUCCESS: Validated pairing with device ${udid}\n`);
+        fakeTools.addDeviceInfo();
+        fakeTools.addInstalledApps([{ bundleId: "com.example.blank" }]);
+    });
+    afterEach(function(): void {
+        if (debugServer) {
+            debugServer.close();
+            debugServer = null;
+        }
+    });
+
+    function expectFailure(promise: Q.Promise<any>, code: string): Q.Promise<void> {
+        return promise.then(function(): void {
+            throw new Error("The operation should have failed!");
+        }, function(err: IDeviceLaunchError): void {
+            err.should.be.instanceOf(IDeviceLaunchError);
+            err.code.should.equal(code);
+        });
+    }
+
+    // Launch with a fake debug server which reports the device as locked for the first lockedLaunches launches.
+    // Resolves with the number of launches attempted, or rejects with the launch's error.
+    function launch(lockedLaunches: number, launchOptions: LaunchOptions): Q.Promise<number> {
+        const replies: { [command: string]: string } = { "qLaunchSuccess": locked };
+        launches = 0;
+        debugServer = new FakeDebugServer({ replies: replies });
+        debugServer.on("command", function(packet: string): void {
+            if (packet === "qLaunchSuccess" && ++launches > lockedLaunches) {
+                delete replies["qLaunchSuccess"];
+            }
+        });
+        return debugServer.listen().then(function(port: number): Q.Promise<DebugSession> {
+            return IosAppRunnerHelper.startApp("com.example.blank", port, 1000, null, udid, launchOptions);
+        }).then(function(session: DebugSession): number {
+            session.pid.should.equal(1234);
+            session.socket.end();
+            return launches;
+        });
+    }
+
+    it("should check that the device is paired and unlocked", function(): Q.Promise<void> {
+        return IosAppRunnerHelper.checkDevice(udid).then(function(info: DeviceInfo): void {
+            info.udid.should.equal(udid);
+            fakeTools.args("idevicepair").should.equal(`-u ${udid} validate`);
+        });
+    });
+
+    it("should report devices which are not paired", function(): Q.Promise<void> {
+        fakeTools.add("idevicepair", `ERROR: Please accept the trust dialog on the screen of device ${udid}, then attempt to pair again.\n`, 1);
+        return expectFailure(IosAppRunnerHelper.checkDevice(udid), "DeviceNotPaired");
+    });
+
+    it("should report devices which are locked", function(): Q.Promise<void> {
+        fakeTools.add("idevicepair", `ERROR: Could not validate with device ${udid} because a passcode is set. Please enter the passcode on the device and retry.\n`, 1);
+        return expectFailure(IosAppRunnerHelper.checkDevice(udid), "DeviceLocked").then(function(): Q.Promise<void> {
+            fakeTools.add("idevicepair", `SUCCESS: Validated pairing with device ${udid}\n`);
+            fakeTools.add("ideviceinfo", "ERROR: Could not connect to lockdownd, error code -17\n", 255);
+            return expectFailure(IosAppRunnerHelper.checkDevice(udid), "DeviceLocked");
+        });
+    });
+
+    it("should check the device before launching when asked to", function(): Q.Promise<void> {
+        fakeTools.add("idevicepair", "No device found.\n", 1);
+        return expectFailure(launch(0, { checkDevice: true }), "NoDeviceAttached").then(function(): void {
+            debugServer.commands.should.eql([]);
+        });
+    });
+
+    it("should retry launches with backoff", function(): Q.Promise<void> {
+        const started: number = Date.now();
+        return launch(2, { retry: { retries: 2, initialDelay: 50 } }).then(function(launches: number): void {
+            launches.should.equal(3);
+            // 50ms before the first retry and 100ms before the second
+            (Date.now() - started).should.be.aboveOrEqual(150);
+        });
+    });
+
+    it("should give up once out of retries", function(): Q.Promise<void> {
+        return expectFailure(launch(3, { retry: { retries: 1, initialDelay: 10 } }), "DeviceLocked").then(function(): void {
+            launches.should.equal(2);
+        });
+    });
+
+    it("should not retry errors outside the policy", function(): Q.Promise<void> {
+        return expectFailure(launch(1, { retry: { retries: 2, initialDelay: 10, retryOn: ["DeviceLaunchTimeout"] } }), "DeviceLocked").then(function(): void {
+            launches.should.equal(1);
+        });
+    });
+
+    it("should wait for the device to be unlocked", function(): Q.Promise<void> {
+        return launch(4, { retry: { initialDelay: 10, waitForUnlock: 5000 } }).then(function(launches: number): void {
+            launches.should.equal(5);
+        });
+    });
+});
@@ -7,7 +7,14 @@ import "should";
 
 import * as net from "net";
 import * as Q from "q";
-import {IosAppRunnerHelper} from "../runApp";
+import * as stream from "stream";
+import {CancellationToken} from "../cancellation";
+import {DebugSession} from "../debugSession";
+import {IDeviceLaunchError} from "../errors";
+import {makeGdbCommand} from "../gdbRemote";
+import {IosAppRunnerHelper, LaunchOptions, SessionEndCallback, SessionEndInfo} from "../runApp";
+import {StopInfo} from "../stopReply";
+import {FakeDebugServer} from "../testing";
 
 interface IMockDebuggerProxy extends net.Server {
     protocolState?: number;
@@ -20,11 +27,18 @@ describe("Device functionality", function(): void {
     const appPath: string = "/private/var/mobile/Applications/042F57CA-9717-4655-8349-532093FFCF44/BlankCordovaApp1.app";
 
     const encodedAppPath: string = "2F707269766174652F7661722F6D6F62696C652F4170706C69636174696F6E732F30343246353743412D393731372D343635352D383334392D3533323039334646434634342F426C616E6B436F72646F7661417070312E617070";
+    // debugserver's reply to qProcessInfo for the launched app, with pid 1234
+    const processInfoReply: string = "pid:4d2;parent-pid:1;real-uid:1f5;real-gid:1f5;name:426c616e6b436f72646f766141707031;cputype:100000c;cpusubtype:0;ostype:ios;vendor:apple;endian:little;ptrsize:8;";
 
     it("should encode paths correctly", function(): void {
         encodedAppPath.should.equal(IosAppRunnerHelper.encodePath(appPath));
     });
 
+    it("should decode paths correctly", function(): void {
+        IosAppRunnerHelper.decodePath(encodedAppPath).should.equal(appPath);
+        IosAppRunnerHelper.decodePath(IosAppRunnerHelper.encodePath("\u00e9\u6f22\ud83d\ude00")).should.equal("\u00e9\u6f22\ud83d\ude00");
+    });
+
     it("should complete the startup sequence when the debugger is well behaved", function(done: MochaDone): void {
         const mockDebuggerProxy: IMockDebuggerProxy = net.createServer(function(client: net.Socket): void {
             mockDebuggerProxy.close();
@@ -62,13 +76,25 @@ describe("Device functionality", function(): void {
                         client.write("$OK#9A");
                         break;
                     case 2:
+                        dataString.should.equal(makeGdbCommand("qLaunchSuccess"));
+                        mockDebuggerProxy.protocolState++;
+                        client.write("+");
+                        client.write("$OK#9A");
+                        break;
+                    case 4:
                         expectedResponse = "$Hc0#DB";
                         dataString.should.equal(expectedResponse);
                         mockDebuggerProxy.protocolState++;
                         client.write("+");
                         client.write("$OK#9A");
                         break;
-                    case 4:
+                    case 6:
+                        dataString.should.equal(makeGdbCommand("qProcessInfo"));
+                        mockDebuggerProxy.protocolState++;
+                        client.write("+");
+                        client.write(makeGdbCommand(processInfoReply));
+                        break;
+                    case 8:
                         expectedResponse = "$c#63";
                         dataString.should.equal(expectedResponse);
                         mockDebuggerProxy.protocolState++;
@@ -128,13 +154,25 @@ describe("Device functionality", function(): void {
                         client.write("$OK#9A");
                         break;
                     case 2:
+                        dataString.should.equal(makeGdbCommand("qLaunchSuccess"));
+                        mockDebuggerProxy.protocolState++;
+                        client.write("+");
+                        client.write("$OK#9A");
+                        break;
+                    case 4:
                         expectedResponse = "$Hc0#DB";
                         dataString.should.equal(expectedResponse);
                         mockDebuggerProxy.protocolState++;
                         client.write("+");
                         client.write("$OK#9A");
                         break;
-                    case 4:
+                    case 6:
+                        dataString.should.equal(makeGdbCommand("qProcessInfo"));
+                        mockDebuggerProxy.protocolState++;
+                        client.write("+");
+                        client.write(makeGdbCommand(processInfoReply));
+                        break;
+                    case 8:
                         expectedResponse = "$c#63";
                         dataString.should.equal(expectedResponse);
                         mockDebuggerProxy.protocolState++;
@@ -153,8 +191,9 @@ describe("Device functionality", function(): void {
 
         Q.timeout(IosAppRunnerHelper.startAppViaDebugger(port, appPath, 5000), 1000).then(function(): void {
             throw new Error("Starting the app should have failed!");
-        }, function(err: any): void {
-            err.should.equal("UnableToLaunchApp");
+        }, function(err: IDeviceLaunchError): void {
+            err.code.should.equal("UnableToLaunchApp");
+            err.step.should.equal("c");
         }).done(() => done(), done);
     });
 
@@ -166,9 +205,9 @@ describe("Device functionality", function(): void {
             mockDebuggerProxy.close();
             client.on("data", function(data: Buffer): void {
                 let dataString: string = data.toString();
-                if (mockDebuggerProxy.protocolState % 2 === 1 || mockDebuggerProxy.protocolState > 4) {
+                if (mockDebuggerProxy.protocolState % 2 === 1 || mockDebuggerProxy.protocolState > 8) {
                     // Every second message should be an acknowledgement of a send of ours,
-                    // until the 3 message handshake is completed and then every response should be an acknowledgement of messages we send.
+                    // until the 5 message handshake is completed and then every response should be an acknowledgement of messages we send.
                     dataString[0].should.equal("+");
                     mockDebuggerProxy.protocolState++;
                     dataString = dataString.substring(1);
@@ -200,13 +239,25 @@ describe("Device functionality", function(): void {
                         client.write("$OK#9A");
                         break;
                     case 2:
+                        dataString.should.equal(makeGdbCommand("qLaunchSuccess"));
+                        mockDebuggerProxy.protocolState++;
+                        client.write("+");
+                        client.write("$OK#9A");
+                        break;
+                    case 4:
                         expectedResponse = "$Hc0#DB";
                         dataString.should.equal(expectedResponse);
                         mockDebuggerProxy.protocolState++;
                         client.write("+");
                         client.write("$OK#9A");
                         break;
-                    case 4:
+                    case 6:
+                        dataString.should.equal(makeGdbCommand("qProcessInfo"));
+                        mockDebuggerProxy.protocolState++;
+                        client.write("+");
+                        client.write(makeGdbCommand(processInfoReply));
+                        break;
+                    case 8:
                         expectedResponse = "$c#63";
                         dataString.should.equal(expectedResponse);
                         mockDebuggerProxy.protocolState++;
@@ -230,8 +281,491 @@ describe("Device functionality", function(): void {
                 deferred.resolve();
             });
             setTimeout(() => deferred.reject(new Error("Expected the socket connection to terminate")), 100);
-            setTimeout(() => clientSocket.write("$T91#00"), 10);
+            setTimeout(() => clientSocket.write("$T91#BE"), 10);
             return deferred.promise;
         }).done(() => done(), done);
     });
+
+    // The commands sent for a plain launch of the app, and well behaved replies to each of them
+    const launchCommands: string[] = [
+        makeGdbCommand("A" + encodedAppPath.length + ",0," + encodedAppPath),
+        makeGdbCommand("qLaunchSuccess"),
+        "$Hc0#DB",
+        makeGdbCommand("qProcessInfo"),
+        "$c#63"
+    ];
+    const launchReplies: string[] = ["+$OK#9A", "+$OK#9A", "+$OK#9A", "+" + makeGdbCommand(processInfoReply), "+$O#4F"];
+
+    interface IMockLaunch {
+        // The commands the mock debugger expects, in order, and its reply to each of them
+        commands: string[];
+        replies: string[];
+        launchOptions?: LaunchOptions;
+        sessionEndCallback?: SessionEndCallback;
+        // Defaults to writing each reply as a single chunk
+        writeReply?: (client: net.Socket, reply: string) => void;
+        // Called with the mock debugger's end of the connection once the launch completes.
+        // Defaults to closing the connection.
+        afterLaunch?: (client: net.Socket) => void;
+    }
+
+    // Serve a mock debugger which expects exactly the given commands, and answers each with the matching reply
+    function runLaunchSequence(mockLaunch: IMockLaunch): Q.Promise<DebugSession> {
+        const expectedCommands: string[] = mockLaunch.commands.slice();
+        const replies: string[] = mockLaunch.replies.slice();
+        const writeReply: (client: net.Socket, reply: string) => void = mockLaunch.writeReply || ((client: net.Socket, reply: string) => client.write(reply));
+        let clientSocket: net.Socket;
+        let received: string = "";
+        const mockDebuggerProxy: net.Server = net.createServer(function(client: net.Socket): void {
+            clientSocket = client;
+            mockDebuggerProxy.close();
+            client.on("data", function(data: Buffer): void {
+                // Acknowledgements and rejections of our replies are not interesting here
+                received += data.toString().replace(/[+-]/g, "");
+                if (expectedCommands.length > 0 && received === expectedCommands[0]) {
+                    expectedCommands.shift();
+                    received = "";
+                    writeReply(client, replies.shift());
+                }
+            });
+        });
+        mockDebuggerProxy.listen(port);
+
+        return Q.timeout(IosAppRunnerHelper.startAppViaDebugger(port, appPath, 5000, mockLaunch.sessionEndCallback, mockLaunch.launchOptions), 1000).then(function(session: DebugSession): DebugSession {
+            expectedCommands.length.should.equal(0);
+            if (mockLaunch.afterLaunch) {
+                mockLaunch.afterLaunch(clientSocket);
+            } else {
+                session.socket.end();
+            }
+            return session;
+        });
+    }
+
+    it("should complete the startup sequence when replies arrive one byte at a time", function(): Q.Promise<DebugSession> {
+        return runLaunchSequence({
+            commands: launchCommands,
+            replies: launchReplies,
+            writeReply: function(client: net.Socket, reply: string): void {
+                reply.split("").forEach(function(char: string, index: number): void {
+                    setTimeout(() => client.write(char), index);
+                });
+            }
+        });
+    });
+
+    it("should complete the startup sequence when replies are coalesced with noise and retransmits", function(): Q.Promise<DebugSession> {
+        return runLaunchSequence({
+            commands: launchCommands,
+            replies: launchReplies,
+            writeReply: function(client: net.Socket, reply: string): void {
+                // A corrupted copy of the reply, which should be rejected, followed by the real reply
+                client.write(reply.replace(/#..$/, "#00") + reply);
+            }
+        });
+    });
+
+    it("should pass launch arguments and environment variables to the app", function(): Q.Promise<DebugSession> {
+        const encodedArg: string = IosAppRunnerHelper.encodePath("-FIRDebugEnabled");
+        const encodedVariable: string = IosAppRunnerHelper.encodePath("GREETING=caf\u00e9 #1");
+        encodedVariable.should.equal("4752454554494E473D636166C3A9202331");
+        return runLaunchSequence({
+            commands: [
+                makeGdbCommand("QEnvironment:OS_ACTIVITY_MODE=disable"),
+                makeGdbCommand("QEnvironmentHexEncoded:" + encodedVariable),
+                makeGdbCommand("A" + encodedAppPath.length + ",0," + encodedAppPath + "," + encodedArg.length + ",1," + encodedArg),
+                makeGdbCommand("qLaunchSuccess"),
+                "$Hc0#DB",
+                makeGdbCommand("qProcessInfo"),
+                "$c#63"
+            ],
+            replies: ["+$OK#9A", "+$OK#9A"].concat(launchReplies),
+            launchOptions: {
+                args: ["-FIRDebugEnabled"],
+                env: {
+                    "OS_ACTIVITY_MODE": "disable",
+                    "GREETING": "caf\u00e9 #1"
+                }
+            }
+        });
+    });
+
+    it("should stream the app's output until the app exits", function(): Q.Promise<void> {
+        // "caf\u00e9\n" followed by "done\n", with the two byte character split between packets
+        const outputPackets: string[] = [makeGdbCommand("O636166C3"), makeGdbCommand("OA90A"), makeGdbCommand("O646F6E650A")];
+        const output: stream.PassThrough = new stream.PassThrough();
+        const outputEnded: Q.Deferred<void> = Q.defer<void>();
+        let text: string = "";
+        output.setEncoding("utf8");
+        output.on("data", (chunk: string) => text += chunk);
+        output.on("end", () => outputEnded.resolve(null));
+
+        return runLaunchSequence({
+            commands: launchCommands,
+            replies: launchReplies.slice(0, -1).concat(["+" + outputPackets[0]]),
+            launchOptions: { output: output },
+            afterLaunch: function(client: net.Socket): void {
+                // Further output after the launch has completed, and then the app exits
+                client.end(outputPackets[1] + outputPackets[2] + "$W00#B7");
+            }
+        }).then(function(): Q.Promise<void> {
+            return Q.timeout(outputEnded.promise, 100);
+        }).then(function(): void {
+            text.should.equal("caf\u00e9\ndone\n");
+        });
+    });
+
+    it("should emit the app's output from the session", function(): Q.Promise<void> {
+        const debugServer: FakeDebugServer = new FakeDebugServer();
+        const ended: Q.Deferred<SessionEndInfo> = Q.defer<SessionEndInfo>();
+        let text: string = "";
+        return debugServer.listen().then(function(port: number): Q.Promise<DebugSession> {
+            return IosAppRunnerHelper.startAppViaDebugger(port, appPath, 1000, (isCrash: boolean, info: SessionEndInfo) => ended.resolve(info));
+        }).then(function(session: DebugSession): Q.Promise<SessionEndInfo> {
+            session.on("output", (chunk: string) => text += chunk);
+            debugServer.output("caf\u00e9\n");
+            debugServer.output("done\n");
+            debugServer.exit(0);
+            return Q.timeout(ended.promise, 1000);
+        }).then(function(): void {
+            text.should.equal("caf\u00e9\ndone\n");
+        }).finally(() => debugServer.close());
+    });
+
+    // Check that the way the app ended is reported in detail
+    function runUntilSessionEnd(endPacket: string): Q.Promise<any[]> {
+        const sessionEnded: Q.Deferred<any[]> = Q.defer<any[]>();
+        return runLaunchSequence({
+            commands: launchCommands,
+            replies: launchReplies,
+            sessionEndCallback: (isCrash: boolean, info: SessionEndInfo) => sessionEnded.resolve([isCrash, info]),
+            afterLaunch: (client: net.Socket) => setTimeout(() => client.write(makeGdbCommand(endPacket)), 10)
+        }).then(function(): Q.Promise<any[]> {
+            return Q.timeout(sessionEnded.promise, 100);
+        });
+    }
+
+    it("should report the exit code when the app exits", function(): Q.Promise<void> {
+        return runUntilSessionEnd("W01").spread(function(isCrash: boolean, info: SessionEndInfo): void {
+            isCrash.should.be.false();
+            info.kind.should.equal("exited");
+            info.exitCode.should.equal(1);
+            (info.signal === null).should.be.true();
+            info.duration.should.be.within(0, 1000);
+        });
+    });
+
+    it("should report the signal when the app is killed", function(): Q.Promise<void> {
+        return runUntilSessionEnd("X09").spread(function(isCrash: boolean, info: SessionEndInfo): void {
+            isCrash.should.be.false();
+            info.kind.should.equal("signaled");
+            info.signal.should.equal(9);
+            info.signalName.should.equal("SIGKILL");
+        });
+    });
+
+    it("should report the signal when the app stops in the debugger", function(): Q.Promise<void> {
+        return runUntilSessionEnd("T06thread:303;").spread(function(isCrash: boolean, info: SessionEndInfo): void {
+            isCrash.should.be.true();
+            info.kind.should.equal("stopped");
+            info.signalName.should.equal("SIGABRT");
+            info.stopInfo.thread.should.equal(0x303);
+        });
+    });
+
+    it("should read the stack of a crashed app before disconnecting when asked to", function(): Q.Promise<void> {
+        const sessionEnded: Q.Deferred<SessionEndInfo> = Q.defer<SessionEndInfo>();
+        const stopReply: string = "T0bthread:303;1d:0000010000000000;20:c8a0f30001000000;";
+        const replies: { [command: string]: string } = {
+            "qThreadStopInfo303": stopReply,
+            "m10000,10": "0000000000000000a0a2f30001000000"
+        };
+        return runLaunchSequence({
+            commands: launchCommands,
+            replies: launchReplies,
+            launchOptions: { collectBacktrace: true },
+            sessionEndCallback: (isCrash: boolean, info: SessionEndInfo) => sessionEnded.resolve(info),
+            afterLaunch: function(client: net.Socket): void {
+                let received: string = "";
+                client.on("data", function(data: Buffer): void {
+                    received += data.toString().replace(/\+/g, "");
+                    const command: RegExpMatchArray = received.match(/^\$([^#]*)#..$/);
+                    if (command) {
+                        received = "";
+                        client.write("+" + makeGdbCommand(replies[command[1]] || "E01"));
+                    }
+                });
+                client.write(makeGdbCommand(stopReply));
+            }
+        }).then(function(): Q.Promise<SessionEndInfo> {
+            return Q.timeout(sessionEnded.promise, 100);
+        }).then(function(info: SessionEndInfo): void {
+            info.stopInfo.signalName.should.equal("SIGSEGV");
+            info.stopInfo.backtrace.should.eql(["0x0000000100f3a0c8", "0x0000000100f3a2a0"]);
+        });
+    });
+
+    it("should retransmit a command that the debugger rejects", function(done: MochaDone): void {
+        const expectedCommand: string = makeGdbCommand("A" + encodedAppPath.length + ",0," + encodedAppPath);
+        let attempts: number = 0;
+        const mockDebuggerProxy: net.Server = net.createServer(function(client: net.Socket): void {
+            mockDebuggerProxy.close();
+            client.on("data", function(data: Buffer): void {
+                const dataString: string = data.toString().replace(/\+/g, "");
+                if (dataString === expectedCommand) {
+                    attempts++;
+                    client.write(attempts === 1 ? "-" : "+$E01#A6");
+                }
+            });
+        });
+        mockDebuggerProxy.on("error", done);
+        mockDebuggerProxy.listen(port);
+
+        Q.timeout(IosAppRunnerHelper.startAppViaDebugger(port, appPath, 5000), 1000).then(function(): void {
+            throw new Error("Starting the app should have failed!");
+        }, function(err: IDeviceLaunchError): void {
+            err.code.should.equal("UnableToLaunchApp");
+            err.step.should.equal("A");
+            attempts.should.equal(2);
+        }).done(() => done(), done);
+    });
+
+    // Serve a mock debugger which acknowledges every command but never replies, resolving once the connection is closed
+    function serveSilentDebugger(): Q.Promise<void> {
+        const closed: Q.Deferred<void> = Q.defer<void>();
+        const mockDebuggerProxy: net.Server = net.createServer(function(client: net.Socket): void {
+            mockDebuggerProxy.close();
+            client.on("data", () => client.write("+"));
+            client.on("close", () => closed.resolve(null));
+        });
+        mockDebuggerProxy.listen(port);
+        return closed.promise;
+    }
+
+    it("should abandon the launch when it is cancelled", function(): Q.Promise<void> {
+        const closed: Q.Promise<void> = serveSilentDebugger();
+        // Shaped like an AbortSignal
+        let abort: () => void = null;
+        const signal: CancellationToken = {
+            aborted: false,
+            addEventListener: (type: string, listener: () => void) => abort = listener
+        };
+        setTimeout(function(): void {
+            signal.aborted = true;
+            abort();
+        }, 200);
+
+        return Q.timeout(IosAppRunnerHelper.startAppViaDebugger(port, appPath, 5000, null, { cancellationToken: signal }), 1000).then(function(): void {
+            throw new Error("Starting the app should have failed!");
+        }, function(err: IDeviceLaunchError): Q.Promise<void> {
+            err.code.should.equal("Cancelled");
+            err.step.should.equal("A");
+            return Q.timeout(closed, 1000);
+        });
+    });
+
+    it("should give up on the launch when the overall timeout passes", function(): Q.Promise<void> {
+        const closed: Q.Promise<void> = serveSilentDebugger();
+        return Q.timeout(IosAppRunnerHelper.startAppViaDebugger(port, appPath, 5000, null, { timeout: 200 }), 1000).then(function(): void {
+            throw new Error("Starting the app should have failed!");
+        }, function(err: IDeviceLaunchError): Q.Promise<void> {
+            err.code.should.equal("DeviceLaunchTimeout");
+            err.step.should.equal("A");
+            return Q.timeout(closed, 1000);
+        });
+    });
+
+    // Serve a mock debugger which acknowledges every command, and answers each with reply(command) if that gives a reply.
+    // An interrupt is given to reply as "\x03". Resolves with the connection once the launcher connects.
+    function serveSessionDebugger(reply: (command: string) => string): Q.Promise<net.Socket> {
+        const connected: Q.Deferred<net.Socket> = Q.defer<net.Socket>();
+        const mockDebuggerProxy: net.Server = net.createServer(function(client: net.Socket): void {
+            mockDebuggerProxy.close();
+            connected.resolve(client);
+            let received: string = "";
+            client.on("data", function(data: Buffer): void {
+                received += data.toString().replace(/[+-]/g, "");
+                let command: RegExpExecArray;
+                while ((command = /^(?:\x03|\$([^#]*)#..)/.exec(received))) {
+                    received = received.substring(command[0].length);
+                    const body: string = command[0] === "\x03" ? "\x03" : command[1];
+                    const response: string = reply(body);
+                    client.write(command[0] === "\x03" ? "" : "+");
+                    if (response !== null) {
+                        client.write(makeGdbCommand(response));
+                    }
+                }
+            });
+        });
+        mockDebuggerProxy.listen(port);
+        return connected.promise;
+    }
+
+    function launchReply(command: string): string {
+        if (command === "qProcessInfo") {
+            return processInfoReply;
+        }
+        return command === "c" ? "O" : command[0] === "A" || command === "Hc0" || command === "qLaunchSuccess" ? "OK" : null;
+    }
+
+    it("should interrupt, continue and kill a running app", function(): Q.Promise<void> {
+        let interrupted: boolean = false;
+        let continued: boolean = false;
+        serveSessionDebugger(function(command: string): string {
+            switch (command) {
+                case "\x03":
+                    interrupted = true;
+                    return "T11thread:1f03;";
+                case "c":
+                    // The first c launches the app, and the second one continues it after the interrupt
+                    continued = interrupted;
+                    return interrupted ? null : "O";
+                case "k":
+                    return "X09";
+                default:
+                    return launchReply(command);
+            }
+        });
+
+        const endInfos: SessionEndInfo[] = [];
+        return IosAppRunnerHelper.startAppViaDebugger(port, appPath, 1000, (isCrash: boolean, info: SessionEndInfo) => endInfos.push(info)).then(function(session: DebugSession): Q.Promise<SessionEndInfo> {
+            return session.interrupt().then(function(stopInfo: StopInfo): Q.Promise<void> {
+                stopInfo.signalName.should.equal("SIGSTOP");
+                stopInfo.thread.should.equal(0x1f03);
+                session.ended.should.be.false();
+                return session.continue();
+            }).then(function(): Q.Promise<SessionEndInfo> {
+                continued.should.be.true();
+                return session.kill();
+            });
+        }).then(function(info: SessionEndInfo): void {
+            info.kind.should.equal("signaled");
+            info.signalName.should.equal("SIGKILL");
+            endInfos.should.eql([info]);
+        });
+    });
+
+    it("should detach from a running app and leave it running", function(): Q.Promise<void> {
+        serveSessionDebugger((command: string) => command === "D" ? "OK" : launchReply(command));
+
+        const crashes: boolean[] = [];
+        return IosAppRunnerHelper.startAppViaDebugger(port, appPath, 1000, (isCrash: boolean) => crashes.push(isCrash)).then(function(session: DebugSession): Q.Promise<void> {
+            return session.detach().then(function(info: SessionEndInfo): Q.Promise<void> {
+                info.kind.should.equal("detached");
+                crashes.should.eql([false]);
+                return session.interrupt().then(function(): void {
+                    throw new Error("Interrupting a detached app should have failed!");
+                }, function(err: IDeviceLaunchError): void {
+                    err.code.should.equal("SessionEnded");
+                    err.step.should.equal("interrupt");
+                });
+            });
+        });
+    });
+
+    it("should end the session when the debug server drops the connection", function(): Q.Promise<void> {
+        const client: Q.Promise<net.Socket> = serveSessionDebugger(launchReply);
+        const ended: Q.Deferred<SessionEndInfo> = Q.defer<SessionEndInfo>();
+        let session: DebugSession;
+        return IosAppRunnerHelper.startAppViaDebugger(port, appPath, 1000, (isCrash: boolean, info: SessionEndInfo) => ended.resolve(info)).then(function(launched: DebugSession): Q.Promise<SessionEndInfo> {
+            session = launched;
+            client.done((socket: net.Socket) => socket.destroy());
+            return Q.timeout(ended.promise, 1000);
+        }).then(function(info: SessionEndInfo): Q.Promise<void> {
+            info.kind.should.equal("disconnected");
+            session.ended.should.be.true();
+            // Rather than waiting for the debug server to reply
+            return Q.timeout(session.kill(), 100).then(function(): void {
+                throw new Error("Killing the app should have failed!");
+            }, function(err: IDeviceLaunchError): void {
+                err.code.should.equal("SessionEnded");
+                err.step.should.equal("k");
+            });
+        });
+    });
+
+    it("should attach to a running app by process id and report when it exits", function(): Q.Promise<void> {
+        const commands: string[] = [];
+        serveSessionDebugger(function(command: string): string {
+            commands.push(command);
+            // The app stops when attached to, and exits as soon as it is continued
+            return command === "vAttach;4d2" ? "T13thread:1f03;" : command === "qProcessInfo" ? processInfoReply : "W00";
+        });
+
+        const ended: Q.Deferred<SessionEndInfo> = Q.defer<SessionEndInfo>();
+        return IosAppRunnerHelper.attachToApp({ pid: 1234 }, port, 1000, (isCrash: boolean, info: SessionEndInfo) => ended.resolve(info)).then(function(session: DebugSession): Q.Promise<SessionEndInfo> {
+            session.pid.should.equal(1234);
+            return Q.timeout(ended.promise, 1000);
+        }).then(function(info: SessionEndInfo): void {
+            commands.should.eql(["vAttach;4d2", "qProcessInfo", "c"]);
+            info.kind.should.equal("exited");
+            info.exitCode.should.equal(0);
+        });
+    });
+
+    it("should report apps which cannot be attached to", function(): Q.Promise<void> {
+        serveSessionDebugger((command: string) => "E01");
+        return IosAppRunnerHelper.attachToApp({ processName: "Blank", waitForLaunch: true }, port, 1000).then(function(): void {
+            throw new Error("Attaching to the app should have failed!");
+        }, function(err: IDeviceLaunchError): void {
+            err.code.should.equal("UnableToAttachToApp");
+            err.step.should.equal("vAttachWait");
+        });
+    });
+
+    it("should close the connection when a launch step fails or times out", function(): Q.Promise<void> {
+        // Each debugger fails the launch at a different step: qLaunchSuccess is never answered, and A is refused
+        const failures: ((command: string) => string)[] = [
+            (command: string) => command === "qLaunchSuccess" ? null : launchReply(command),
+            (command: string) => command[0] === "A" ? "E08" : launchReply(command)
+        ];
+        const codes: string[] = [];
+        return failures.reduce(function(previous: Q.Promise<void>, reply: (command: string) => string): Q.Promise<void> {
+            return previous.then(function(): Q.Promise<void> {
+                const closed: Q.Promise<void> = serveSessionDebugger(reply).then(function(client: net.Socket): Q.Promise<void> {
+                    const deferred: Q.Deferred<void> = Q.defer<void>();
+                    client.on("close", () => deferred.resolve(null));
+                    return deferred.promise;
+                });
+                return IosAppRunnerHelper.startAppViaDebugger(port, appPath, 200).then(function(): void {
+                    throw new Error("Starting the app should have failed!");
+                }, function(err: IDeviceLaunchError): Q.Promise<void> {
+                    codes.push(err.code);
+                    return Q.timeout(closed, 1000);
+                });
+            });
+        }, Q<void>(null)).then(function(): void {
+            codes.should.eql(["DeviceLaunchTimeout", "UnableToLaunchApp"]);
+        });
+    });
+
+    it("should report the launched app's process id and details", function(): Q.Promise<void> {
+        return runLaunchSequence({ commands: launchCommands, replies: launchReplies }).then(function(session: DebugSession): void {
+            session.pid.should.equal(1234);
+            session.processInfo.parentPid.should.equal(1);
+            session.processInfo.name.should.equal("BlankCordovaApp1");
+            session.processInfo.cpuType.should.equal(0x100000c);
+            session.processInfo.pointerSize.should.equal(8);
+            session.processInfo.properties["vendor"].should.equal("apple");
+        });
+    });
+
+    it("should report why the app could not be launched", function(): Q.Promise<void> {
+        const reasons: { [code: string]: string } = {
+            "DeviceLocked": "The request to open \"com.example.blank\" failed. The request was denied by service delegate (SBMainWorkspace) for reason: Locked (\"Unable to launch com.example.blank because the device was not, or could not be, unlocked\").",
+            "UntrustedDeveloper": "The request was denied by service delegate (SBMainWorkspace) for reason: Security (\"Unable to launch com.example.blank because it has an invalid code signature, inadequate entitlements or its profile has not been explicitly trusted by the user\")."
+        };
+        return Object.keys(reasons).reduce(function(previous: Q.Promise<void>, code: string): Q.Promise<void> {
+            return previous.then(function(): Q.Promise<void> {
+                serveSessionDebugger((command: string) => command === "qLaunchSuccess" ? "E" + reasons[code] : launchReply(command));
+                return IosAppRunnerHelper.startAppViaDebugger(port, appPath, 1000).then(function(): void {
+                    throw new Error("Starting the app should have failed!");
+                }, function(err: IDeviceLaunchError): void {
+                    err.code.should.equal(code);
+                    err.step.should.equal("qLaunchSuccess");
+                    err.cause.message.should.equal(reasons[code]);
+                });
+            });
+        }, Q<void>(null));
+    });
 });
@@ -0,0 +1,42 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as Q from "q";
+import {IDeviceLaunchError} from "../errors";
+import * as simpleWrapper from "../simpleWrapper";
+
+describe("Simple wrapper", function(): void {
+    // Nothing listens on this port
+    const port: number = 12347;
+
+    afterEach(() => simpleWrapper.setMessageCatalog(null));
+
+    function expectLaunchError(): Q.Promise<IDeviceLaunchError> {
+        return simpleWrapper.startAppViaDebugger(port, "/private/var/mobile/Applications/Blank.app", 1000).then(function(): IDeviceLaunchError {
+            throw new Error("Starting the app should have failed!");
+        }, function(err: IDeviceLaunchError): IDeviceLaunchError {
+            err.should.be.instanceof(IDeviceLaunchError);
+            err.code.should.equal("DebugProxyConnectionFailed");
+            err.step.should.equal("connect");
+            err.cause.code.should.equal("ECONNREFUSED");
+            return err;
+        });
+    }
+
+    it("should give errors english messages by default", function(): Q.Promise<void> {
+        return expectLaunchError().then(function(err: IDeviceLaunchError): void {
+            err.message.should.equal("Unable to connect to the debug server proxy. Is it running?");
+        });
+    });
+
+    it("should give errors messages from the message catalog", function(): Q.Promise<void> {
+        simpleWrapper.setMessageCatalog({ "DebugProxyConnectionFailed": "Verbindung zum Debugserver-Proxy fehlgeschlagen." });
+        return expectLaunchError().then(function(err: IDeviceLaunchError): void {
+            err.message.should.equal("Verbindung zum Debugserver-Proxy fehlgeschlagen.");
+        });
+    });
+});
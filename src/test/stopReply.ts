@@ -0,0 +1,77 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as Q from "q";
+import {StopInfo, collectBacktrace, parseStopReply} from "../stopReply";
+
+describe("Stop replies", function(): void {
+    // An EXC_BAD_ACCESS on arm64, with fp = 0x16f5fb0f0, lr = 0x100f3a1b4, sp = 0x16f5fb0d0 and pc = 0x100f3a0c8
+    const crashReply: string = "T0bthread:1d3a5;name:main;threads:1d3a5;reason:exception;" +
+        "description:4558435f4241445f414343455353;metype:1;mecount:2;medata:1;medata:0;" +
+        "1d:f0b05f6f01000000;1e:b4a1f30001000000;1f:d0b05f6f01000000;20:c8a0f30001000000;";
+
+    it("should parse a stop reply", function(): void {
+        const info: StopInfo = parseStopReply(crashReply);
+        info.signal.should.equal(11);
+        info.signalName.should.equal("SIGSEGV");
+        info.thread.should.equal(0x1d3a5);
+        info.threadName.should.equal("main");
+        info.reason.should.equal("exception");
+        info.description.should.equal("EXC_BAD_ACCESS");
+        info.exceptionType.should.equal(1);
+        info.exceptionData.should.eql(["1", "0"]);
+        info.pc.should.equal("0x0000000100f3a0c8");
+        info.sp.should.equal("0x000000016f5fb0d0");
+        info.lr.should.equal("0x0000000100f3a1b4");
+        info.fp.should.equal("0x000000016f5fb0f0");
+        info.registers["32"].should.equal(info.pc);
+    });
+
+    it("should use 32 bit ARM register numbers for 32 bit register values", function(): void {
+        const info: StopInfo = parseStopReply("T06thread:303;7:f8fe0000;d:e8fe0000;e:04100000;f:00100000;");
+        info.signalName.should.equal("SIGABRT");
+        info.pc.should.equal("0x00001000");
+        info.lr.should.equal("0x00001004");
+        info.sp.should.equal("0x0000fee8");
+        info.fp.should.equal("0x0000fef8");
+    });
+
+    it("should ignore packets which are not stop replies", function(): void {
+        (parseStopReply("OK") === null).should.be.true();
+    });
+
+    it("should walk the frame pointers to collect a backtrace", function(): Q.Promise<void> {
+        const queries: string[] = [];
+        const replies: { [command: string]: string } = {
+            // The full stop info is the same as the original
+            "qThreadStopInfo1d3a5": crashReply,
+            // Frame record at fp: caller fp 0x16f5fb110, return address 0x100f3a2a0
+            "m16f5fb0f0,10": "10b15f6f01000000a0a2f30001000000",
+            // Frame record at 0x16f5fb110: caller fp 0, return address 0x100f3a300
+            "m16f5fb110,10": "000000000000000000a3f30001000000"
+        };
+        return collectBacktrace(parseStopReply(crashReply), function(command: string): Q.Promise<string> {
+            queries.push(command);
+            return replies[command] ? Q(replies[command]) : Q("E08");
+        }).then(function(info: StopInfo): void {
+            queries.should.eql(["qThreadStopInfo1d3a5", "m16f5fb0f0,10", "m16f5fb110,10"]);
+            info.backtrace.should.eql(["0x0000000100f3a0c8", "0x0000000100f3a2a0", "0x0000000100f3a300"]);
+        });
+    });
+
+    it("should stop walking at frame pointers which do not move up the stack", function(): Q.Promise<void> {
+        return collectBacktrace(parseStopReply(crashReply), function(command: string): Q.Promise<string> {
+            if (command === "m16f5fb0f0,10") {
+                // Points back down the stack
+                return Q("00b05f6f01000000a0a2f30001000000");
+            }
+            return Q.reject<string>(new Error("DebuggerQueryTimeout"));
+        }).then(function(info: StopInfo): void {
+            info.backtrace.should.eql(["0x0000000100f3a0c8", "0x0000000100f3a2a0"]);
+        });
+    });
+});
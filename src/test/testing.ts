@@ -0,0 +1,196 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as child_process from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as Q from "q";
+import * as stream from "stream";
+import {DebugProxyManager} from "../debugProxyManager";
+import {DebugSession} from "../debugSession";
+import {IDeviceLaunchError} from "../errors";
+import {AppInfo, DeviceInfo, IosAppRunnerHelper, LaunchOptions, SessionEndInfo} from "../runApp";
+import {SharedState} from "../sharedState";
+import {FakeDebugServer, FakeTools} from "../testing";
+import {StepTiming} from "../timings";
+
+describe("Fake device toolkit", function(): void {
+    const fakeTools: FakeTools = new FakeTools();
+    let debugServer: FakeDebugServer;
+
+    before(() => fakeTools.install());
+    after(() => fakeTools.uninstall());
+    afterEach(function(): Q.Promise<void> {
+        if (debugServer) {
+            debugServer.close();
+            debugServer = null;
+        }
+        IosAppRunnerHelper.invalidateInstalledAppsCache();
+        IosAppRunnerHelper.invalidateDeviceCache();
+        return IosAppRunnerHelper.stopDebugProxy("00008030-001A2B3C4D5E6F70");
+    });
+
+    // Start a proxy to the fake debug server, as startDebugProxyManager would on a real device
+    function startProxy(): Q.Promise<number> {
+        return debugServer.listen().then(function(debugServerPort: number): Q.Promise<DebugProxyManager> {
+            fakeTools.addDeviceInfo();
+            fakeTools.addImageMounter(true);
+            fakeTools.addDebugServerProxy(debugServerPort);
+            fakeTools.addInstalledApps([{ bundleId: "com.example.blank", name: "Blank" }, { bundleId: "com.apple.mobilesafari", isSystemApp: true }]);
+            return IosAppRunnerHelper.startDebugProxyManager({ udid: "00008030-001A2B3C4D5E6F70" });
+        }).then((manager: DebugProxyManager) => manager.port);
+    }
+
+    it("should run the whole startApp path without a device", function(): Q.Promise<void> {
+        debugServer = new FakeDebugServer({ pid: 42 });
+        const output: stream.PassThrough = new stream.PassThrough();
+        const ended: Q.Deferred<SessionEndInfo> = Q.defer<SessionEndInfo>();
+        let text: string = "";
+        output.setEncoding("utf8");
+        output.on("data", (chunk: string) => text += chunk);
+
+        return startProxy().then(function(port: number): Q.Promise<DebugSession> {
+            const launchOptions: LaunchOptions = { args: ["-FIRDebugEnabled"], env: { "GREETING": "café" }, output: output };
+            return IosAppRunnerHelper.startApp("com.example.blank", port, 1000, (isCrash: boolean, info: SessionEndInfo) => ended.resolve(info), "00008030-001A2B3C4D5E6F70", launchOptions);
+        }).then(function(session: DebugSession): Q.Promise<SessionEndInfo> {
+            session.pid.should.equal(42);
+            debugServer.args.should.eql(["-FIRDebugEnabled"]);
+            debugServer.env.should.eql({ "GREETING": "café" });
+            debugServer.output("Hello\n");
+            debugServer.exit(3);
+            return Q.timeout(ended.promise, 1000);
+        }).then(function(info: SessionEndInfo): void {
+            info.kind.should.equal("exited");
+            info.exitCode.should.equal(3);
+            text.should.equal("Hello\n");
+        });
+    });
+
+    it("should interrupt and crash the app when told to", function(): Q.Promise<void> {
+        debugServer = new FakeDebugServer();
+        let session: DebugSession;
+        const ended: Q.Deferred<SessionEndInfo> = Q.defer<SessionEndInfo>();
+        return startProxy().then(function(port: number): Q.Promise<DebugSession> {
+            return IosAppRunnerHelper.startApp("com.example.blank", port, 1000, (isCrash: boolean, info: SessionEndInfo) => ended.resolve(info), "00008030-001A2B3C4D5E6F70");
+        }).then(function(launched: DebugSession): Q.Promise<void> {
+            session = launched;
+            return session.interrupt().then(() => session.continue());
+        }).then(function(): Q.Promise<SessionEndInfo> {
+            debugServer.crash(6);
+            return Q.timeout(ended.promise, 1000);
+        }).then(function(info: SessionEndInfo): void {
+            info.kind.should.equal("stopped");
+            info.signalName.should.equal("SIGABRT");
+            debugServer.commands.filter((command: string) => command === "c").length.should.equal(2);
+        });
+    });
+
+    it("should fail launches as it is told to", function(): Q.Promise<void> {
+        debugServer = new FakeDebugServer({ replies: { "qLaunchSuccess": "EThe request was denied by service delegate (SBMainWorkspace) for reason: Security", "Hc0": null } });
+        return startProxy().then(function(port: number): Q.Promise<DebugSession> {
+            return IosAppRunnerHelper.startApp("com.example.blank", port, 1000, null, "00008030-001A2B3C4D5E6F70");
+        }).then(function(): void {
+            throw new Error("Starting the app should have failed!");
+        }, function(err: IDeviceLaunchError): void {
+            err.code.should.equal("UntrustedDeveloper");
+        });
+    });
+
+    it("should reuse the proxy and launch without acknowledgements", function(): Q.Promise<void> {
+        debugServer = new FakeDebugServer();
+        let proxy: child_process.ChildProcess;
+        const steps: (timings: StepTiming[]) => string[] = (timings: StepTiming[]) => timings.map((timing: StepTiming) => timing.step);
+        return startProxy().then(function(): Q.Promise<DebugProxyManager> {
+            proxy = SharedState.getNativeDebuggerProxyInstance("00008030-001A2B3C4D5E6F70").process;
+            return IosAppRunnerHelper.startDebugProxyManager({ udid: "00008030-001A2B3C4D5E6F70" });
+        }).then(function(manager: DebugProxyManager): Q.Promise<DebugSession> {
+            manager.process.should.equal(proxy);
+            steps(manager.timings).should.eql(["connection", "checkProxy"]);
+            const launchOptions: LaunchOptions = { noAckMode: true, cacheAppPath: true };
+            return IosAppRunnerHelper.startApp("com.example.blank", manager.port, 1000, null, "00008030-001A2B3C4D5E6F70", launchOptions);
+        }).then(function(session: DebugSession): Q.Promise<DebugProxyManager> {
+            // Reusing the proxy first checks that it still reaches the debug server
+            debugServer.commands.slice(0, 2).should.eql(["qC", "QStartNoAckMode"]);
+            steps(session.timings).should.eql(["connection", "appPath", "connect", "QStartNoAckMode", "A", "qLaunchSuccess", "Hc0", "qProcessInfo", "c"]);
+            session.timings.forEach((timing: StepTiming) => timing.duration.should.be.aboveOrEqual(0));
+
+            // The image is known to be mounted, so it is neither checked nor mounted again
+            fakeTools.add("ideviceimagemounter", "ERROR: Could not connect to lockdownd\n", 1);
+            return IosAppRunnerHelper.stopDebugProxy("00008030-001A2B3C4D5E6F70").then(() => IosAppRunnerHelper.startDebugProxyManager({ udid: "00008030-001A2B3C4D5E6F70" }));
+        }).then(function(manager: DebugProxyManager): void {
+            manager.process.should.not.equal(proxy);
+            steps(manager.timings).should.eql(["connection", "checkProxy", "mount", "proxy"]);
+        });
+    });
+
+    it("should check the device again once it has restarted", function(): Q.Promise<void> {
+        this.timeout(10000);
+        const udid: string = "00008030-001A2B3C4D5E6F70";
+        const imagePath: string = path.join(os.tmpdir(), `idevice-app-launcher-image-${process.pid}.dmg`);
+        fs.writeFileSync(imagePath, "");
+        fs.writeFileSync(imagePath + ".signature", "");
+        debugServer = new FakeDebugServer();
+        let proxy: child_process.ChildProcess;
+        return startProxy().then(function(port: number): Q.Promise<DebugSession> {
+            proxy = SharedState.getNativeDebuggerProxyInstance(udid).process;
+            // The device restarts: the proxy is still listening, but debugserver is gone and the image is no longer mounted
+            debugServer.close();
+            fakeTools.addImageMounter(false);
+            return IosAppRunnerHelper.startApp("com.example.blank", port, 500, null, udid);
+        }).then(function(): number {
+            throw new Error("Starting the app should have failed!");
+        }, function(err: IDeviceLaunchError): Q.Promise<number> {
+            err.code.should.equal("UnableToLaunchApp");
+            debugServer = new FakeDebugServer();
+            return debugServer.listen();
+        }).then(function(debugServerPort: number): Q.Promise<DebugProxyManager> {
+            fakeTools.addDebugServerProxy(debugServerPort);
+            return IosAppRunnerHelper.startDebugProxyManager({ udid: udid, diskImagePath: imagePath });
+        }).then(function(manager: DebugProxyManager): void {
+            manager.process.should.not.equal(proxy);
+            fakeTools.args("ideviceimagemounter").should.equal(`-u ${udid} ${imagePath} ${imagePath}.signature`);
+        }).finally(function(): void {
+            fs.unlinkSync(imagePath);
+            fs.unlinkSync(imagePath + ".signature");
+        });
+    });
+
+    it("should fake the device's tools", function(): Q.Promise<void> {
+        fakeTools.addDevices();
+        fakeTools.addDeviceInfo({ ProductVersion: "11.1.2" });
+        fakeTools.addInstalledApps([{ bundleId: "com.example.blank" }, { bundleId: "com.apple.mobilesafari", isSystemApp: true }]);
+        return IosAppRunnerHelper.listDevices().then(function(udids: string[]): Q.Promise<DeviceInfo> {
+            udids.should.eql(["00008030-001A2B3C4D5E6F70"]);
+            return IosAppRunnerHelper.getDeviceInfo(udids[0]);
+        }).then(function(info: DeviceInfo): Q.Promise<any> {
+            info.productVersion.should.equal("11.1.2");
+            info.cpuArchitecture.should.equal("arm64e");
+            return IosAppRunnerHelper.installApp("/tmp/Blank.ipa");
+        }).then(function(): Q.Promise<string[]> {
+            return IosAppRunnerHelper.listInstalledApps({ includeSystemApps: true }).then((apps: AppInfo[]) => apps.map((app: AppInfo) => app.bundleId));
+        }).then(function(bundleIds: string[]): void {
+            bundleIds.should.eql(["com.example.blank", "com.apple.mobilesafari"]);
+        });
+    });
+});
+
+describe("Fake tools", function(): void {
+    it("should replace the directory left behind by a run which was killed", function(): void {
+        const toolsDir: string = path.join(os.tmpdir(), "idevice-app-launcher-test-" + process.pid);
+        fs.mkdirSync(toolsDir);
+        fs.writeFileSync(path.join(toolsDir, "ideviceinfo"), "Left behind");
+        const fakeTools: FakeTools = new FakeTools();
+        fakeTools.install();
+        try {
+            fs.readdirSync(toolsDir).should.eql([]);
+        } finally {
+            fakeTools.uninstall();
+        }
+        fs.existsSync(toolsDir).should.be.false();
+    });
+});
@@ -0,0 +1,149 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import "should";
+
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import * as Q from "q";
+import {DebugSession} from "../debugSession";
+import {IDeviceLaunchError} from "../errors";
+import {makeGdbCommand} from "../gdbRemote";
+import {ReplayServer} from "../replayServer";
+import {IosAppRunnerHelper} from "../runApp";
+import {Trace, TraceEvent, TraceRecorder, loadTrace, setTraceRecorder} from "../trace";
+import {FakeTools} from "../testing";
+
+describe("Traces", function(): void {
+    const fakeTools: FakeTools = new FakeTools();
+    const port: number = 12349;
+    const appPath: string = "/private/var/containers/Bundle/Application/042F57CA-9717-4655-8349-532093FFCF44/Blank.app";
+    const traceFile: string = path.join(os.tmpdir(), "idevice-app-launcher-trace-" + process.pid + ".json");
+    const replies: { [command: string]: string } = {
+        "qLaunchSuccess": "OK",
+        "Hc0": "OK",
+        "qProcessInfo": "pid:4d2;parent-pid:1;",
+        "c": "O"
+    };
+
+    before(() => fakeTools.install());
+    after(function(): void {
+        fakeTools.uninstall();
+        setTraceRecorder(null);
+        if (fs.existsSync(traceFile)) {
+            fs.unlinkSync(traceFile);
+        }
+    });
+
+    // Serve a mock debugger which replies OK to A packets, and from replies to everything else
+    function serveDebugger(): void {
+        const mockDebuggerProxy: net.Server = net.createServer(function(client: net.Socket): void {
+            mockDebuggerProxy.close();
+            client.on("data", function(data: Buffer): void {
+                const command: RegExpExecArray = /\$([^#]*)#/.exec(data.toString());
+                if (command) {
+                    client.write("+" + makeGdbCommand(command[1][0] === "A" ? "OK" : replies[command[1]]));
+                }
+            });
+        });
+        mockDebuggerProxy.listen(port);
+    }
+
+    function replayLaunch(trace: Trace, launchArgs: string[]): Q.Promise<string[]> {
+        const server: ReplayServer = new ReplayServer(trace);
+        const mismatches: string[] = [];
+        server.on("mismatch", (expected: string, actual: string) => mismatches.push(actual));
+        return server.listen().then(function(replayPort: number): Q.Promise<DebugSession> {
+            return IosAppRunnerHelper.startAppViaDebugger(replayPort, appPath, 1000, null, { args: launchArgs });
+        }).then(function(session: DebugSession): string[] {
+            session.pid.should.equal(1234);
+            session.socket.end();
+            return mismatches;
+        }, function(err: IDeviceLaunchError): string[] {
+            mismatches.length.should.equal(1);
+            err.code.should.equal("UnableToLaunchApp");
+            return mismatches;
+        }).finally(() => server.close());
+    }
+
+    it("should record packets and tools to a trace file", function(): Q.Promise<void> {
+        const recorder: TraceRecorder = new TraceRecorder(traceFile);
+        setTraceRecorder(recorder);
+        serveDebugger();
+        fakeTools.add("idevice_id", "00008030-001A2B3C4D5E6F70\n");
+        return IosAppRunnerHelper.listDevices().then(function(): Q.Promise<DebugSession> {
+            return IosAppRunnerHelper.startAppViaDebugger(port, appPath, 1000);
+        }).then(function(session: DebugSession): void {
+            session.socket.end();
+            setTraceRecorder(null);
+            recorder.save();
+
+            const events: TraceEvent[] = loadTrace(traceFile).events;
+            const tool: TraceEvent = events.filter((event: TraceEvent) => event.type === "process")[0];
+            tool.command.should.equal("idevice_id");
+            tool.args.should.eql(["-l"]);
+            tool.stdout.should.equal("00008030-001A2B3C4D5E6F70\n");
+            tool.exitCode.should.equal(0);
+
+            const packets: string[] = events.filter((event: TraceEvent) => event.type === "packet").map((event: TraceEvent) => event.direction + " " + event.data);
+            packets.should.eql([
+                "sent A" + packets[0].substring(6),
+                "received OK",
+                "sent qLaunchSuccess",
+                "received OK",
+                "sent Hc0",
+                "received OK",
+                "sent qProcessInfo",
+                "received pid:4d2;parent-pid:1;",
+                "sent c",
+                "received O"
+            ]);
+            events[0].type.should.equal("process");
+            events[1].connection.should.equal(1);
+        });
+    });
+
+    it("should replay a recorded launch", function(): Q.Promise<void> {
+        return replayLaunch(loadTrace(traceFile), []).then(function(mismatches: string[]): void {
+            mismatches.should.eql([]);
+        });
+    });
+
+    it("should report launches which differ from the recording", function(): Q.Promise<void> {
+        return replayLaunch(loadTrace(traceFile), ["-FIRDebugEnabled"]).then(function(mismatches: string[]): void {
+            mismatches[0].should.endWith(IosAppRunnerHelper.encodePath("-FIRDebugEnabled"));
+        });
+    });
+
+    // A launch recorded on a locked device
+    it("should reproduce a recorded launch failure", function(): Q.Promise<void> {
+        const encodedPath: string = IosAppRunnerHelper.encodePath(appPath);
+        const trace: Trace = {
+            version: 1,
+            events: [
+                { type: "connect", time: 0, connection: 1 },
+                { type: "packet", time: 2, connection: 1, direction: "sent", data: "A" + encodedPath.length + ",0," + encodedPath },
+                { type: "packet", time: 40, connection: 1, direction: "received", data: "OK" },
+                { type: "packet", time: 41, connection: 1, direction: "sent", data: "qLaunchSuccess" },
+                { type: "packet", time: 1210, connection: 1, direction: "received", data: "EThe request was denied by service delegate (SBMainWorkspace) for reason: Locked." }
+            ]
+        };
+        const server: ReplayServer = new ReplayServer(trace);
+        const finished: Q.Deferred<number> = Q.defer<number>();
+        server.on("finished", (connection: number) => finished.resolve(connection));
+        return server.listen().then(function(replayPort: number): Q.Promise<DebugSession> {
+            return IosAppRunnerHelper.startAppViaDebugger(replayPort, appPath, 1000);
+        }).then(function(): number {
+            throw new Error("Starting the app should have failed!");
+        }, function(err: IDeviceLaunchError): Q.Promise<number> {
+            err.code.should.equal("DeviceLocked");
+            return Q.timeout(finished.promise, 100);
+        }).then(function(connection: number): void {
+            connection.should.equal(1);
+        }).finally(() => server.close());
+    });
+});
@@ -0,0 +1,368 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as events from "events";
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import * as Q from "q";
+
+import * as pl from "plist";
+
+import {GdbPacketReader, makeGdbCommand} from "./gdbRemote";
+
+// Fakes of a device's debug server and of the libimobiledevice tools, for testing code built on this package without a device,
+// e.g. on a Linux CI machine. Available as require("idevice-app-launcher/out/testing").
+
+export interface FakeDebugServerOptions {
+    // The process id reported for the app, 1234 by default
+    pid?: number;
+    // Replies to send instead of the usual ones, looked up by the whole packet, e.g. "Hc0", or by the name it starts with, e.g. "A" or "QEnvironment".
+    // A reply of null means the packet is acknowledged but never answered, so that the launcher times out.
+    // For example { qLaunchSuccess: "EThe request was denied by service delegate (SBMainWorkspace) for reason: Locked." }
+    replies?: { [command: string]: string };
+}
+
+// A debugserver which goes through the launch handshake as a device would, and can then be told to make the app
+// write output, exit, crash or be killed. Interrupting, continuing, killing, detaching and attaching all work as on a device.
+// Emits "command" (packet: string) for each packet received, with an interrupt as "\x03".
+export class FakeDebugServer extends events.EventEmitter {
+    public port: number = null;
+    // Every packet received, in order
+    public commands: string[] = [];
+    // The arguments and environment variables the app was launched with
+    public args: string[] = [];
+    public env: { [name: string]: string } = {};
+    // Resolved once the app has been continued for the first time, i.e. is running
+    public launched: Q.Promise<void>;
+
+    private pid: number;
+    private replies: { [command: string]: string };
+    private server: net.Server;
+    private client: net.Socket = null;
+    private running: boolean = false;
+    private continued: boolean = false;
+    // Packets are no longer acknowledged once the launcher has asked for QStartNoAckMode
+    private acknowledging: boolean = true;
+    private launchedDeferred: Q.Deferred<void> = Q.defer<void>();
+
+    constructor(options: FakeDebugServerOptions = {}) {
+        super();
+        this.pid = options.pid || 1234;
+        this.replies = options.replies || {};
+        this.launched = this.launchedDeferred.promise;
+        this.server = net.createServer((socket: net.Socket) => this.serve(socket));
+    }
+
+    // Listen on the given port, or a free one, resolving with the port
+    public listen(port: number = 0): Q.Promise<number> {
+        const deferred: Q.Deferred<number> = Q.defer<number>();
+        this.server.once("error", (err: Error) => deferred.reject(err));
+        this.server.listen(port, "localhost", () => {
+            this.port = this.server.address().port;
+            deferred.resolve(this.port);
+        });
+        return deferred.promise;
+    }
+
+    public close(): void {
+        if (this.client) {
+            this.client.destroy();
+        }
+        this.server.close();
+    }
+
+    // Make the app write to its console
+    public output(text: string): void {
+        this.send("O" + new Buffer(text, "utf8").toString("hex"));
+    }
+
+    // Make the app exit with the given code, ending the session
+    public exit(code: number = 0): void {
+        this.send("W" + this.hexByte(code));
+        this.end();
+    }
+
+    // Make the app stop in the debugger with the given signal, as it would when it crashes. SIGSEGV by default.
+    public crash(signal: number = 11): void {
+        this.running = false;
+        this.send("T" + this.hexByte(signal) + "thread:1;");
+    }
+
+    // Make the app be terminated by the given signal, ending the session. SIGKILL by default.
+    public terminate(signal: number = 9): void {
+        this.send("X" + this.hexByte(signal));
+        this.end();
+    }
+
+    private serve(socket: net.Socket): void {
+        this.client = socket;
+        this.acknowledging = true;
+        const reader: GdbPacketReader = new GdbPacketReader();
+        reader.on("packet", (packet: string) => {
+            if (this.acknowledging) {
+                socket.write("+");
+            }
+            this.receive(packet);
+        });
+        reader.on("interrupt", () => this.receive("\x03"));
+        reader.on("invalidPacket", () => socket.write("-"));
+        socket.on("data", (data: Buffer) => reader.push(data));
+        socket.on("error", (): void => null);
+    }
+
+    private receive(packet: string): void {
+        this.commands.push(packet);
+        this.emit("command", packet);
+
+        const name: string = packet === "\x03" ? packet : (/^[A-Za-z]+/.exec(packet) || [""])[0];
+        const override: string = packet in this.replies ? this.replies[packet] : this.replies[name];
+        if (override !== undefined) {
+            if (override !== null) {
+                this.send(override);
+            }
+            return;
+        }
+
+        switch (name) {
+            case "A":
+                // Each argument is given as length,index,hex encoded value
+                const fields: string[] = packet.substring(1).split(",");
+                for (let i: number = 2; i < fields.length; i += 3) {
+                    this.args.push(new Buffer(fields[i], "hex").toString("utf8"));
+                }
+                // The first argument is the path of the app, rather than an argument to it
+                this.args.shift();
+                this.send("OK");
+                break;
+            case "QEnvironment":
+            case "QEnvironmentHexEncoded":
+                const variable: string = packet.substring(packet.indexOf(":") + 1);
+                const decoded: string = name === "QEnvironment" ? variable : new Buffer(variable, "hex").toString("utf8");
+                this.env[decoded.substring(0, decoded.indexOf("="))] = decoded.substring(decoded.indexOf("=") + 1);
+                this.send("OK");
+                break;
+            case "qLaunchSuccess":
+            case "Hc":
+                this.send("OK");
+                break;
+            case "QStartNoAckMode":
+                this.send("OK");
+                this.acknowledging = false;
+                break;
+            case "qProcessInfo":
+                this.send(`pid:${this.pid.toString(16)};parent-pid:1;real-uid:1f5;real-gid:1f5;cputype:100000c;cpusubtype:2;ostype:ios;vendor:apple;endian:little;ptrsize:8;`);
+                break;
+            case "vAttach":
+            case "vAttachName":
+            case "vAttachWait":
+                this.send("T11thread:1;");
+                break;
+            case "c":
+                // The launcher waits for a reply to the first continue, but continuing after an interrupt is only acknowledged
+                if (!this.continued) {
+                    this.send("O");
+                }
+                this.continued = true;
+                this.running = true;
+                this.launchedDeferred.resolve(null);
+                break;
+            case "\x03":
+                if (this.running) {
+                    this.running = false;
+                    this.send("T11thread:1;");
+                }
+                break;
+            case "k":
+                this.terminate(9);
+                break;
+            case "D":
+                this.send("OK");
+                this.end();
+                break;
+            default:
+                // Not supported
+                this.send("");
+        }
+    }
+
+    private send(packet: string): void {
+        if (this.client) {
+            this.client.write(makeGdbCommand(packet), "binary");
+        }
+    }
+
+    private end(): void {
+        this.running = false;
+        if (this.client) {
+            this.client.end();
+            this.client = null;
+        }
+    }
+
+    private hexByte(value: number): string {
+        return (value < 16 ? "0" : "") + value.toString(16);
+    }
+}
+
+// An installed app, as listed by ideviceinstaller
+export interface FakeApp {
+    bundleId: string;
+    name?: string;
+    version?: string;
+    // The path of the app bundle on the device, by default made up from the name
+    path?: string;
+    isSystemApp?: boolean;
+}
+
+const defaultDeviceProperties: { [key: string]: any } = {
+    UniqueDeviceID: "00008030-001A2B3C4D5E6F70",
+    DeviceName: "iPhone",
+    ProductType: "iPhone12,1",
+    ProductVersion: "13.3",
+    BuildVersion: "17C54",
+    CPUArchitecture: "arm64e",
+    PasswordProtected: false
+};
+
+// Fake versions of the libimobiledevice tools, put first on the PATH between install() and uninstall(), e.g. in before and after
+export class FakeTools {
+    private toolsDir: string = path.join(os.tmpdir(), "idevice-app-launcher-test-" + process.pid);
+    private originalPath: string;
+
+    public install(): void {
+        // A run which was killed before uninstall() may have left the directory behind, with the same pid
+        if (fs.existsSync(this.toolsDir)) {
+            this.removeToolsDir();
+        }
+        fs.mkdirSync(this.toolsDir);
+        this.originalPath = process.env.PATH;
+        process.env.PATH = this.toolsDir + path.delimiter + this.originalPath;
+    }
+
+    public uninstall(): void {
+        process.env.PATH = this.originalPath;
+        this.removeToolsDir();
+    }
+
+    // Put a fake tool on the PATH which prints the given output and exits with the given code
+    public add(name: string, output: string, exitCode: number = 0): void {
+        const outputFile: string = path.join(this.toolsDir, name + ".out");
+        fs.writeFileSync(outputFile, output);
+        fs.writeFileSync(path.join(this.toolsDir, name), `#!/bin/sh\nprintf "%s\\n" "$*" > "${outputFile}.args"\ncat "${outputFile}"\nexit ${exitCode}\n`, { mode: 0o755 });
+    }
+
+    // Put a fake tool on the PATH which runs the given node script, for tools which need to do more than print output.
+    // The script can use args, the arguments it was run with.
+    public addScript(name: string, script: string): void {
+        const argsFile: string = path.join(this.toolsDir, name + ".out.args");
+        const header: string = `#!/usr/bin/env node\nvar args = process.argv.slice(2);\nrequire("fs").writeFileSync(${JSON.stringify(argsFile)}, args.join(" "));\n`;
+        fs.writeFileSync(path.join(this.toolsDir, name), header + script, { mode: 0o755 });
+    }
+
+    // The arguments the fake tool was last run with
+    public args(name: string): string {
+        return fs.readFileSync(path.join(this.toolsDir, name + ".out.args"), "utf8").trim();
+    }
+
+    // idevice_id, listing the given devices
+    public addDevices(udids: string[] = [defaultDeviceProperties["UniqueDeviceID"]]): void {
+        this.add("idevice_id", udids.map((udid: string) => udid + "\n").join(""));
+    }
+
+    // ideviceinfo, reporting the given properties in place of those of a made up iPhone
+    public addDeviceInfo(properties: { [key: string]: any } = {}): void {
+        const merged: { [key: string]: any } = {};
+        [defaultDeviceProperties, properties].forEach(function(source: { [key: string]: any }): void {
+            Object.keys(source).forEach((key: string) => merged[key] = source[key]);
+        });
+        this.addScript("ideviceinfo", `var properties = ${JSON.stringify(merged)};
+var key = args.indexOf("-k") !== -1 ? args[args.indexOf("-k") + 1] : null;
+if (key) {
+    process.stdout.write(key in properties ? properties[key] + "\\n" : "");
+} else if (args.indexOf("-x") !== -1) {
+    process.stdout.write(${JSON.stringify(pl.build(merged))});
+} else {
+    Object.keys(properties).forEach(function(name) { process.stdout.write(name + ": " + properties[name] + "\\n"); });
+}
+`);
+    }
+
+    // ideviceinstaller, listing the given apps as installed, and reporting that installing and uninstalling succeed
+    public addInstalledApps(apps: FakeApp[]): void {
+        const list: any[] = apps.map(function(app: FakeApp): any {
+            const name: string = app.name || app.bundleId.split(".").pop();
+            return {
+                ApplicationType: app.isSystemApp ? "System" : "User",
+                CFBundleDisplayName: name,
+                CFBundleIdentifier: app.bundleId,
+                CFBundleShortVersionString: app.version || "1.0",
+                CFBundleVersion: app.version || "1.0",
+                Path: app.path || `/private/var/containers/Bundle/Application/042F57CA-9717-4655-8349-532093FFCF44/${name}.app`
+            };
+        });
+        const userApps: any[] = list.filter((app: any) => app.ApplicationType === "User");
+        this.addScript("ideviceinstaller", `if (args.indexOf("-l") !== -1) {
+    process.stdout.write(args.indexOf("list_all") !== -1 ? ${JSON.stringify(pl.build(list))} : ${JSON.stringify(pl.build(userApps))});
+} else if (args.indexOf("-U") !== -1) {
+    console.log("Uninstall: RemovingApplication (50%)");
+    console.log("Uninstall: Complete");
+} else {
+    console.log("Install: CopyingApplication (40%)");
+    console.log("Install: Complete");
+}
+`);
+    }
+
+    // ideviceimagemounter, reporting whether a developer disk image is mounted and that mounting one succeeds
+    public addImageMounter(mounted: boolean = false): void {
+        const status: string = pl.build({ ImageSignature: mounted ? [new Buffer("signature")] : [], Status: "Complete" });
+        this.addScript("ideviceimagemounter", `if (args.indexOf("-l") !== -1) {
+    process.stdout.write(${JSON.stringify(status)});
+} else {
+    console.log("Uploading " + args[args.length - 2]);
+    console.log("Status: Complete");
+}
+`);
+    }
+
+    // idevicedebugserverproxy, forwarding each connection made to the port it is given to the fake debug server on debugServerPort
+    public addDebugServerProxy(debugServerPort: number): void {
+        this.addScript("idevicedebugserverproxy", `var net = require("net");
+net.createServer(function(client) {
+    var server = net.connect(${debugServerPort}, "localhost");
+    client.pipe(server);
+    server.pipe(client);
+    client.on("error", function() { server.destroy(); });
+    server.on("error", function() { client.destroy(); });
+}).listen(parseInt(args[args.length - 1], 10));
+`);
+    }
+
+    // idevicesyslog, printing the given lines and then waiting to be killed, as it would while the device logs nothing more
+    public addSyslog(lines: string[]): void {
+        this.addScript("idevicesyslog", `process.stdout.write(${JSON.stringify(lines.map((line: string) => line + "\n").join(""))});
+setInterval(function() { /* Keep running */ }, 1000);
+`);
+    }
+
+    // idevicecrashreport, copying crash reports with the given names and contents into the directory it is given
+    public addCrashReports(reports: { [name: string]: string }): void {
+        this.addScript("idevicecrashreport", `var fs = require("fs");
+var path = require("path");
+var reports = ${JSON.stringify(reports)};
+Object.keys(reports).forEach(function(name) {
+    fs.writeFileSync(path.join(args[args.length - 1], name), reports[name]);
+    console.log("Copy: " + name);
+});
+`);
+    }
+
+    private removeToolsDir(): void {
+        fs.readdirSync(this.toolsDir).forEach((file: string) => fs.unlinkSync(path.join(this.toolsDir, file)));
+        fs.rmdirSync(this.toolsDir);
+    }
+}
@@ -0,0 +1,21 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as Q from "q";
+
+// How long one step of starting a proxy or launching an app took, e.g. { step: "qLaunchSuccess", duration: 210 }
+export interface StepTiming {
+    step: string;
+    // Milliseconds
+    duration: number;
+}
+
+// Run the step, adding how long it took to timings whether it succeeds or fails
+export function timeStep<T>(timings: StepTiming[], step: string, run: () => Q.Promise<T>): Q.Promise<T> {
+    const started: number = Date.now();
+    return Q<void>(null).then(run).finally(function(): void {
+        timings.push({ step: step, duration: Date.now() - started });
+    });
+}
@@ -0,0 +1,128 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+"use strict";
+
+import * as child_process from "child_process";
+import * as fs from "fs";
+
+import {getLogger} from "./logger";
+
+// One thing which happened during a recording:
+// "connect" when a connection to the debug server proxy is opened, numbered from 1 by connection
+// "packet" for each gdb remote packet, with direction "sent" (by us) or "received" (from the debug server) and the decoded payload in data.
+//     An interrupt is recorded as a sent packet of "\x03".
+// "process" for each child process run, once it has closed, with everything it wrote
+export interface TraceEvent {
+    type: string;
+    // Milliseconds since the recording started
+    time: number;
+    connection?: number;
+    direction?: string;
+    data?: string;
+    command?: string;
+    args?: string[];
+    exitCode?: number;
+    signal?: string;
+    stdout?: string;
+    stderr?: string;
+}
+
+export interface Trace {
+    version: number;
+    events: TraceEvent[];
+}
+
+const traceVersion: number = 1;
+
+// Records every packet exchanged with debug servers, and every tool run, while it is set with setTraceRecorder
+export class TraceRecorder {
+    public events: TraceEvent[] = [];
+    // Where save() writes the trace by default
+    public file: string;
+
+    private startTime: number = Date.now();
+    private connections: number = 0;
+
+    constructor(file: string = null) {
+        this.file = file;
+    }
+
+    // Returns the number of the new connection, for recordPacket
+    public recordConnection(): number {
+        this.record({ type: "connect", time: 0, connection: ++this.connections });
+        return this.connections;
+    }
+
+    public recordPacket(connection: number, direction: string, data: string): void {
+        this.record({ type: "packet", time: 0, connection: connection, direction: direction, data: data });
+    }
+
+    // Record the process once it closes, along with its output
+    public recordProcess(command: string, args: string[], child: child_process.ChildProcess): void {
+        const started: number = Date.now() - this.startTime;
+        let stdout: string = "";
+        let stderr: string = "";
+        if (child.stdout) {
+            child.stdout.on("data", (data: Buffer) => stdout += data.toString());
+        }
+        if (child.stderr) {
+            child.stderr.on("data", (data: Buffer) => stderr += data.toString());
+        }
+        let recorded: boolean = false;
+        const finish: (code: number, signal: string) => void = (code: number, signal: string) => {
+            if (!recorded) {
+                recorded = true;
+                this.events.push({ type: "process", time: started, command: command, args: args, exitCode: code, signal: signal, stdout: stdout, stderr: stderr });
+            }
+        };
+        child.on("close", finish);
+        // A tool which could not be run at all is recorded with what went wrong as its stderr
+        child.on("error", (err: Error) => {
+            stderr += err.message;
+            finish(null, null);
+        });
+    }
+
+    public toJSON(): Trace {
+        return { version: traceVersion, events: this.events };
+    }
+
+    public save(file: string = this.file): void {
+        fs.writeFileSync(file, JSON.stringify(this.toJSON(), null, 2));
+    }
+
+    private record(event: TraceEvent): void {
+        event.time = Date.now() - this.startTime;
+        this.events.push(event);
+    }
+}
+
+let currentRecorder: TraceRecorder = null;
+
+// Start recording into the given recorder. Pass null to stop recording.
+export function setTraceRecorder(recorder: TraceRecorder): void {
+    currentRecorder = recorder;
+}
+
+export function getTraceRecorder(): TraceRecorder {
+    return currentRecorder;
+}
+
+export function loadTrace(file: string): Trace {
+    const trace: Trace = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (trace.version !== traceVersion || !Array.isArray(trace.events)) {
+        throw new Error(`${file} is not a trace recorded by this version of idevice-app-launcher`);
+    }
+    return trace;
+}
+
+// Run a tool, logging it and recording it in the trace if one is being recorded
+export function spawnTraced(command: string, args: string[]): child_process.ChildProcess {
+    getLogger().debug(`Running ${command} ${args.join(" ")}`);
+    const child: child_process.ChildProcess = child_process.spawn(command, args);
+    if (currentRecorder) {
+        currentRecorder.recordProcess(command, args, child);
+    }
+    return child;
+}
@@ -2,21 +2,351 @@
 // Licensed under the MIT license. See LICENSE file in the project root for details.
 
 /// <reference path="./node/node.d.ts" />
-/// <reference path="./q/q.d.ts" />
+/// <reference path="./q/Q.d.ts" />
 
 declare module "idevice-app-launcher" {
 	import * as child_process from "child_process";
+	import * as events from "events";
 	import * as net from "net";
 	import * as Q from "q";
+	interface DeviceInfo {
+		udid: string;
+		name: string;
+		model: string;
+		productVersion: string;
+		buildVersion: string;
+		cpuArchitecture: string;
+		passwordProtected: boolean;
+		properties: { [key: string]: any };
+	}
+
+	interface CancellationToken {
+		aborted?: boolean;
+		addEventListener?: (type: string, listener: () => void) => void;
+		removeEventListener?: (type: string, listener: () => void) => void;
+		isCancellationRequested?: boolean;
+		onCancellationRequested?: (listener: () => void) => { dispose(): any };
+	}
+
+	interface CancellationOptions {
+		cancellationToken?: CancellationToken;
+		timeout?: number;
+	}
+
+	interface DiskImageOptions {
+		diskImagePath?: string;
+		diskImageSignaturePath?: string;
+		diskImageSearchPaths?: string[];
+	}
+
+	type ConnectionType = "usb" | "network" | "any";
+
+	interface ConnectionOptions {
+		connection?: ConnectionType;
+	}
+
+	interface ConnectedDevice {
+		udid: string;
+		connection: ConnectionType;
+	}
+
+	interface MountOptions extends CancellationOptions, DiskImageOptions, ConnectionOptions {
+	}
+
+	interface CheckDeviceOptions extends CancellationOptions, ConnectionOptions {
+	}
+
+	interface LaunchOptions extends CancellationOptions, ConnectionOptions {
+		args?: string[];
+		env?: { [key: string]: string };
+		output?: NodeJS.WritableStream;
+		collectBacktrace?: boolean;
+		cacheAppPath?: boolean;
+		checkDevice?: boolean;
+		retry?: RetryPolicy;
+		diagnostics?: DiagnosticsOptions;
+		noAckMode?: boolean;
+	}
+
+	interface StepTiming {
+		step: string;
+		duration: number;
+	}
+
+	interface DiagnosticsOptions {
+		directory: string;
+		crashReports?: boolean;
+		crashReportDelay?: number;
+	}
+
+	interface Diagnostics {
+		directory: string;
+		syslogFile: string;
+		sessionFile: string;
+		crashReports: string[];
+	}
+
+	interface RetryPolicy {
+		retries?: number;
+		initialDelay?: number;
+		factor?: number;
+		maxDelay?: number;
+		retryOn?: string[];
+		waitForUnlock?: number;
+	}
+
+	interface AppInfo {
+		bundleId: string;
+		name: string;
+		version: string;
+		buildVersion: string;
+		path: string;
+		isSystemApp: boolean;
+	}
+
+	interface AttachTarget {
+		pid?: number;
+		processName?: string;
+		bundleId?: string;
+		udid?: string;
+		waitForLaunch?: boolean;
+	}
+
+	interface ListInstalledAppsOptions extends CancellationOptions, ConnectionOptions {
+		udid?: string;
+		includeSystemApps?: boolean;
+	}
+
+	interface ProcessInfo {
+		pid: number;
+		parentPid: number;
+		name: string;
+		cpuType: number;
+		cpuSubtype: number;
+		osType: string;
+		endian: string;
+		pointerSize: number;
+		properties: { [key: string]: string };
+	}
+
+	interface StopInfo {
+		signal: number;
+		signalName: string;
+		thread: number;
+		threadName: string;
+		reason: string;
+		description: string;
+		exceptionType: number;
+		exceptionData: string[];
+		registers: { [register: string]: string };
+		pc: string;
+		sp: string;
+		lr: string;
+		fp: string;
+		backtrace: string[];
+	}
+
+	type SessionEndKind = "exited" | "signaled" | "stopped" | "detached" | "disconnected";
+
+	interface SessionEndInfo {
+		kind: SessionEndKind;
+		exitCode: number;
+		signal: number;
+		signalName: string;
+		duration: number;
+		stopInfo: StopInfo;
+	}
+
+	type SessionEndCallback = (isCrash: boolean, info?: SessionEndInfo, session?: DebugSession) => void;
+
+	interface InstallProgress {
+		status: string;
+		percent: number;
+	}
+
+	interface InstallOptions extends ConnectionOptions {
+		udid?: string;
+		progressCallback?: (progress: InstallProgress) => void;
+	}
+
+	class DebugSession extends events.EventEmitter {
+		socket: net.Socket;
+		pid: number;
+		processInfo: ProcessInfo;
+		startTime: number;
+		endInfo: SessionEndInfo;
+		diagnostics: Q.Promise<Diagnostics>;
+		timings: StepTiming[];
+		ended: boolean;
+		interrupt(): Q.Promise<StopInfo>;
+		continue(): Q.Promise<void>;
+		kill(): Q.Promise<SessionEndInfo>;
+		detach(): Q.Promise<SessionEndInfo>;
+	}
+
+	class IDeviceLaunchError extends Error {
+		code: string;
+		step: string;
+		cause: any;
+		stderr: string;
+		constructor(code: string, step?: string, cause?: any, stderr?: string);
+	}
+
+	interface Logger {
+		debug(message: string): void;
+		info(message: string): void;
+		warn(message: string): void;
+		error(message: string): void;
+	}
+
+	interface TraceEvent {
+		type: string;
+		time: number;
+		connection?: number;
+		direction?: string;
+		data?: string;
+		command?: string;
+		args?: string[];
+		exitCode?: number;
+		signal?: string;
+		stdout?: string;
+		stderr?: string;
+	}
+
+	interface Trace {
+		version: number;
+		events: TraceEvent[];
+	}
+
+	class TraceRecorder {
+		events: TraceEvent[];
+		file: string;
+		constructor(file?: string);
+		toJSON(): Trace;
+		save(file?: string): void;
+	}
+
+	class ReplayServer extends events.EventEmitter {
+		port: number;
+		constructor(trace: Trace);
+		listen(port?: number): Q.Promise<number>;
+		close(): void;
+	}
+
+	interface DebugProxyOptions extends CancellationOptions, DiskImageOptions, ConnectionOptions {
+		port?: number;
+		udid?: string;
+		readyTimeout?: number;
+		autoRestart?: boolean;
+		maxRestarts?: number;
+		killTimeout?: number;
+	}
+
+	class DebugProxyManager extends events.EventEmitter {
+		static findFreePort(): Q.Promise<number>;
+		port: number;
+		udid: string;
+		connection: ConnectionType;
+		process: child_process.ChildProcess;
+		running: boolean;
+		timings: StepTiming[];
+		constructor(options?: DebugProxyOptions);
+		start(): Q.Promise<number>;
+		stop(): Q.Promise<void>;
+		isHealthy(): Q.Promise<boolean>;
+		kill(signal?: string): void;
+	}
+
 	class IosAppRunnerHelper {
-		static startDebugProxy(proxyPort: number): Q.Promise<child_process.ChildProcess>;
-		static startApp(packageId: string, proxyPort: number, appLaunchStepTimeout: number, sessionEndCallback?: (isCrash: boolean) => void): Q.Promise<net.Socket>;
-		static startAppViaDebugger(portNumber: number, packagePath: string, appLaunchStepTimeout: number, sessionEndCallback?: (isCrash: boolean) => void): Q.Promise<net.Socket>;
+		static listDevices(options?: ConnectionOptions): Q.Promise<string[]>;
+		static listConnectedDevices(options?: ConnectionOptions): Q.Promise<ConnectedDevice[]>;
+		static getDeviceInfo(udid: string, options?: ConnectionOptions): Q.Promise<DeviceInfo>;
+		static checkDevice(udid?: string, options?: CheckDeviceOptions): Q.Promise<DeviceInfo>;
+		static startDebugProxy(proxyPort: number, udid?: string, options?: MountOptions): Q.Promise<child_process.ChildProcess>;
+		static mountDeveloperImage(udid?: string, options?: MountOptions): Q.Promise<any>;
+		static startDebugProxyManager(options?: DebugProxyOptions): Q.Promise<DebugProxyManager>;
+		static stopDebugProxy(udid?: string): Q.Promise<void>;
+		static invalidateDeviceCache(udid?: string): void;
+		static startApp(packageId: string, proxyPort: number, appLaunchStepTimeout: number, sessionEndCallback?: SessionEndCallback, udid?: string, launchOptions?: LaunchOptions): Q.Promise<DebugSession>;
+		static attachToApp(target: AttachTarget, proxyPort: number, appLaunchStepTimeout: number, sessionEndCallback?: SessionEndCallback, launchOptions?: LaunchOptions): Q.Promise<DebugSession>;
+		static listInstalledApps(options?: ListInstalledAppsOptions): Q.Promise<AppInfo[]>;
+		static invalidateInstalledAppsCache(udid?: string): void;
+		static startAppViaDebugger(portNumber: number, packagePath: string, appLaunchStepTimeout: number, sessionEndCallback?: SessionEndCallback, launchOptions?: LaunchOptions): Q.Promise<DebugSession>;
+		static installApp(appPath: string, options?: InstallOptions): Q.Promise<any>;
+		static uninstallApp(packageId: string, options?: InstallOptions): Q.Promise<any>;
+		static installAndLaunch(appPath: string, packageId: string, proxyPort: number, appLaunchStepTimeout: number, sessionEndCallback?: SessionEndCallback, installOptions?: InstallOptions, launchOptions?: LaunchOptions): Q.Promise<DebugSession>;
 		static encodePath(packagePath: string): string;
+		static decodePath(encodedPath: string): string;
 	}		
 
 	export var raw: typeof IosAppRunnerHelper;
-	export function startDebugProxy(proxyPort: number): Q.Promise<child_process.ChildProcess>;
-	export function startApp(packageId: string, proxyPort: number, appLaunchStepTimeout?: number, sessionEndCallback?: (isCrash: boolean) => void): Q.Promise<net.Socket>;
-	export function startAppViaDebugger(portNumber: number, packagePath: string, appLaunchStepTimeout?: number, sessionEndCallback?: (isCrash: boolean) => void): Q.Promise<net.Socket>;
+	export function setMessageCatalog(catalog: { [key: string]: string }): void;
+	export function setLogger(logger: Logger): void;
+	export function setTraceRecorder(recorder: TraceRecorder): void;
+	export function loadTrace(file: string): Trace;
+	export function attachToApp(target: AttachTarget, proxyPort: number, appLaunchStepTimeout?: number, sessionEndCallback?: SessionEndCallback, launchOptions?: LaunchOptions): Q.Promise<DebugSession>;
+	export function listInstalledApps(options?: ListInstalledAppsOptions): Q.Promise<AppInfo[]>;
+	export function invalidateInstalledAppsCache(udid?: string): void;
+	export function invalidateDeviceCache(udid?: string): void;
+	export function installApp(appPath: string, options?: InstallOptions): Q.Promise<any>;
+	export function uninstallApp(packageId: string, options?: InstallOptions): Q.Promise<any>;
+	export function installAndLaunch(appPath: string, packageId: string, proxyPort: number, appLaunchStepTimeout?: number, sessionEndCallback?: SessionEndCallback, installOptions?: InstallOptions, launchOptions?: LaunchOptions): Q.Promise<DebugSession>;
+	export function listDevices(options?: ConnectionOptions): Q.Promise<string[]>;
+	export function listConnectedDevices(options?: ConnectionOptions): Q.Promise<ConnectedDevice[]>;
+	export function getDeviceInfo(udid: string, options?: ConnectionOptions): Q.Promise<DeviceInfo>;
+	export function checkDevice(udid?: string, options?: CheckDeviceOptions): Q.Promise<DeviceInfo>;
+	export function startDebugProxy(proxyPort: number, udid?: string, options?: MountOptions): Q.Promise<child_process.ChildProcess>;
+	export function mountDeveloperImage(udid?: string, options?: MountOptions): Q.Promise<any>;
+	export function startDebugProxyManager(options?: DebugProxyOptions): Q.Promise<DebugProxyManager>;
+	export function stopDebugProxy(udid?: string): Q.Promise<void>;
+	export function startApp(packageId: string, proxyPort: number, appLaunchStepTimeout?: number, sessionEndCallback?: SessionEndCallback, udid?: string, launchOptions?: LaunchOptions): Q.Promise<DebugSession>;
+	export function startAppViaDebugger(portNumber: number, packagePath: string, appLaunchStepTimeout?: number, sessionEndCallback?: SessionEndCallback, launchOptions?: LaunchOptions): Q.Promise<DebugSession>;
+}
+
+declare module "idevice-app-launcher/out/testing" {
+	import * as events from "events";
+	import * as Q from "q";
+
+	interface FakeDebugServerOptions {
+		pid?: number;
+		replies?: { [command: string]: string };
+	}
+
+	class FakeDebugServer extends events.EventEmitter {
+		port: number;
+		commands: string[];
+		args: string[];
+		env: { [name: string]: string };
+		launched: Q.Promise<void>;
+		constructor(options?: FakeDebugServerOptions);
+		listen(port?: number): Q.Promise<number>;
+		close(): void;
+		output(text: string): void;
+		exit(code?: number): void;
+		crash(signal?: number): void;
+		terminate(signal?: number): void;
+	}
+
+	interface FakeApp {
+		bundleId: string;
+		name?: string;
+		version?: string;
+		path?: string;
+		isSystemApp?: boolean;
+	}
+
+	class FakeTools {
+		install(): void;
+		uninstall(): void;
+		add(name: string, output: string, exitCode?: number): void;
+		addScript(name: string, script: string): void;
+		args(name: string): string;
+		addDevices(udids?: string[]): void;
+		addDeviceInfo(properties?: { [key: string]: any }): void;
+		addInstalledApps(apps: FakeApp[]): void;
+		addImageMounter(mounted?: boolean): void;
+		addDebugServerProxy(debugServerPort: number): void;
+		addSyslog(lines: string[]): void;
+		addCrashReports(reports: { [name: string]: string }): void;
+	}
 }
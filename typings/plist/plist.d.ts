@@ -5,6 +5,7 @@
 
 declare module Plist {
     function parse(s: string): any;
+    function build(value: any): string;
 }
 
 declare module "plist" {